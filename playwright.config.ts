@@ -1,4 +1,62 @@
 import { defineConfig, devices } from '@playwright/test';
+import { getConfig } from './smoke-test/config/test-config';
+import { FAULT_CATALOG } from './smoke-test/fault-injection/catalog';
+import { storageStatePath } from './smoke-test/auth/storage-state';
+
+const config = getConfig();
+
+// Map the configured browser onto the matching desktop device profile
+const BROWSER_PROJECTS = {
+  chromium: { name: 'Desktop Chrome', use: { ...devices['Desktop Chrome'], channel: 'chrome' } },
+  firefox: { name: 'Desktop Firefox', use: { ...devices['Desktop Firefox'] } },
+  webkit: { name: 'Desktop Safari', use: { ...devices['Desktop Safari'] } },
+} as const;
+
+const browserProject = {
+  name: BROWSER_PROJECTS[config.browser].name,
+  use: {
+    ...BROWSER_PROJECTS[config.browser].use,
+    // Keep the configured viewport instead of the device default
+    viewport: config.viewport,
+  },
+};
+
+// Catalog sweep mode: crawl the catalog and check every product page (see smoke-test/catalog-sweep/)
+const CATALOG_SWEEP_SUITE = 'catalog-sweep.smoke.spec.ts';
+const catalogSweepProjects = [{ ...browserProject, testMatch: CATALOG_SWEEP_SUITE }];
+
+// Variant matrix mode: select every variant combination of each product (see smoke-test/variant-matrix/)
+const VARIANT_MATRIX_SUITE = 'variant-matrix.smoke.spec.ts';
+const variantMatrixProjects = [{ ...browserProject, testMatch: VARIANT_MATRIX_SUITE }];
+
+// Tests tagged @customer need a signed-in customer, tests tagged @guest an anonymous shopper.
+// The customer project reuses the storageState saved by global setup (AUTH_ROLES)
+const AUTHENTICATED_SUITES = ['system-basics.smoke.spec.ts', 'checkout.smoke.spec.ts', 'account.smoke.spec.ts'];
+const userProjects = [
+  { ...browserProject, testIgnore: [CATALOG_SWEEP_SUITE, VARIANT_MATRIX_SUITE], grepInvert: /@customer/ },
+  ...(config.auth.roles.includes('customer')
+    ? [{
+        name: `${browserProject.name} (customer)`,
+        testMatch: AUTHENTICATED_SUITES,
+        grepInvert: /@guest/,
+        use: { ...browserProject.use, storageState: storageStatePath('customer') },
+      }]
+    : []),
+];
+
+// Fault matrix mode: an unmodified baseline plus one project per catalog fault,
+// each running only the smoke tests the fault targets
+const FAULT_MATRIX_SUITE = 'system-basics.smoke.spec.ts';
+const faultMatrixProjects = [
+  { ...browserProject, testMatch: FAULT_MATRIX_SUITE },
+  ...FAULT_CATALOG.filter(fault => fault.targets?.length).map(fault => ({
+    name: `fault:${fault.id}`,
+    testMatch: FAULT_MATRIX_SUITE,
+    grep: new RegExp(`\\b(${fault.targets?.join('|')}):`),
+    metadata: { faultId: fault.id, faultDescription: fault.description },
+    use: { ...browserProject.use, faultIds: [fault.id] },
+  })),
+];
 
 /**
  * Playwright configuration for Saleor smoke tests
@@ -12,7 +70,7 @@ export default defineConfig({
   fullyParallel: true,
   
   // Fail the build on CI if you accidentally left test.only in the source code
-  forbidOnly: !!process.env.CI,
+  forbidOnly: config.ci,
   
   // No retries for fast smoke tests
   retries: 0,
@@ -25,50 +83,59 @@ export default defineConfig({
     ['html', { outputFolder: 'playwright-report', open: 'never' }],
     ['json', { outputFile: 'test-results/results.json' }],
     ['junit', { outputFile: 'test-results/junit.xml' }],
-    process.env.CI ? ['github'] : ['list']
+    config.ci ? ['github'] : ['list'],
+    ['./smoke-test/reporters/outcome-reporter.ts', { outputFile: 'test-results/outcomes.json' }],
+    ['./smoke-test/reporters/selector-health-reporter.ts', { outputDir: 'test-results' }],
+    ['./smoke-test/reporters/broken-links-reporter.ts', { outputDir: 'test-results' }],
+    ['./smoke-test/reporters/smoke-summary-reporter.ts', {
+      baselineFile: config.durations.baselineFile,
+      outputDir: 'test-results',
+      tolerance: config.durations.tolerance,
+      updateBaseline: config.durations.updateBaseline,
+    }],
+    ...(config.faultMatrix ? [['./smoke-test/reporters/fault-matrix-reporter.ts', { outputDir: 'test-results' }] as const] : []),
+    ...(config.catalogSweep.enabled ? [['./smoke-test/reporters/catalog-sweep-reporter.ts', { outputDir: 'test-results' }] as const] : []),
   ],
   
   // Global test configuration
   use: {
     // Base URL for tests - Saleor storefront
-    baseURL: 'http://localhost:3000',
+    baseURL: config.baseURL,
+    
+    // Artifacts (minimal by default for speed)
+    trace: config.artifacts.trace,
+    screenshot: config.artifacts.screenshot,
+    video: config.artifacts.video,
     
-    // Minimal tracing for speed
-    trace: 'off',
-    screenshot: 'only-on-failure',
-    video: 'off',
+    headless: config.headless,
     
     // Viewport
-    viewport: { width: 1280, height: 720 },
+    viewport: config.viewport,
     
     // User agent
     userAgent: 'Saleor-SmokeTest-Bot/1.0',
     
     // Faster timeouts for smoke tests
-    actionTimeout: 5000,
-    navigationTimeout: 15000,
+    actionTimeout: config.timeouts.action,
+    navigationTimeout: config.timeouts.navigation,
     
     // Ignore HTTPS errors for local development
     ignoreHTTPSErrors: true,
   },
 
   // Faster test timeout
-  timeout: 30000,
+  timeout: config.timeouts.test,
   
   // Faster expect timeout for assertions
   expect: {
-    timeout: 5000,
+    timeout: config.timeouts.expect,
   },
 
   // Configure projects for major browsers
-  projects: [
-    {
-      name: 'Desktop Chrome',
-      use: { 
-        ...devices['Desktop Chrome'],
-        channel: 'chrome'
-      },
-    },
+  projects: config.catalogSweep.enabled ? catalogSweepProjects
+    : config.variantMatrix.enabled ? variantMatrixProjects
+    : config.faultMatrix ? faultMatrixProjects : [
+    ...userProjects,
     
     // {
     //   name: 'Desktop Firefox',
@@ -92,16 +159,21 @@ export default defineConfig({
     // },
   ],
 
-  // Run your local dev server before starting the tests
-  webServer: {
-    command: 'echo "Please ensure Saleor storefront is running on localhost:3000"',
-    url: 'http://localhost:3000',
-    reuseExistingServer: !process.env.CI,
-    timeout: 120 * 1000,
-  },
+  // Boots the offline storefront when configured and signs in the AUTH_ROLES accounts
+  globalSetup: './smoke-test/global-setup.ts',
+
+  // Without the offline storefront, wait for the real one to be running
+  ...(config.offlineStorefront
+    ? {}
+    : {
+        webServer: {
+          command: `echo "Please ensure Saleor storefront is running on ${config.baseURL}"`,
+          url: config.baseURL,
+          reuseExistingServer: !config.ci,
+          timeout: 120 * 1000,
+        },
+      }),
   
   // Output directories
   outputDir: 'test-results/',
-  
-  // Global setup and teardown - remove to fix TypeScript error
 });
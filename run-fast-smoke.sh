@@ -14,9 +14,11 @@ NC='\033[0m' # No Color
 echo -e "${BLUE}🚀 Running FAST Saleor Smoke Tests (Chrome Only)${NC}"
 echo "=================================================="
 
+BASE_URL="${BASE_URL:-http://localhost:3000}"
+
 # Check if Saleor is running
-if ! curl -s --connect-timeout 3 http://localhost:3000 > /dev/null; then
-    echo -e "${RED}❌ Saleor storefront is not running on localhost:3000${NC}"
+if ! curl -s --connect-timeout 3 "$BASE_URL" > /dev/null; then
+    echo -e "${RED}❌ Saleor storefront is not running on $BASE_URL${NC}"
     echo "Please start Saleor first:"
     echo "  cd ../storefront/saleor-storefront-installed-manually-from-fork"
     echo "  npm run dev"
@@ -0,0 +1,63 @@
+import { mergeTests } from '@playwright/test';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as pageGuardTest } from './fixtures/page-guard';
+import { test as storefrontTest, expect } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+
+const test = mergeTests(storefrontTest, faultInjectionTest, pageGuardTest);
+
+/**
+ * Smoke Test Suite: Customer Account
+ *
+ * Checks the signed-in customer's account area: profile, order history with order details, and address book.
+ * Needs a signed-in customer, so it runs in the customer project only (AUTH_ROLES includes "customer").
+ * Runs once per configured channel (CHANNELS)
+ */
+
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - Customer Account`, { tag: '@customer' }, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('AC-001: Account page should show the signed-in customer', async ({ accountPage }) => {
+      // Given: A signed-in customer
+      const { email } = getConfig().users.customer;
+
+      // When: The customer opens their account
+      await accountPage.goto();
+
+      // Then: The profile shows the customer's email
+      await accountPage.verifyAccountPageLoaded();
+      await accountPage.verifyProfile(email);
+    });
+
+    test('AC-002: Order history should list a placed order and open its details', async ({ storefront, accountPage, orderHistoryPage }) => {
+      // Given: The customer has just placed an order
+      const orderNumber = await storefront.placeCustomerOrder();
+
+      // When: The customer opens their order history from the account
+      await accountPage.goto();
+      await accountPage.verifyAccountPageLoaded();
+      await accountPage.openOrderHistory();
+      await orderHistoryPage.verifyOrderHistoryLoaded();
+
+      // Then: The order is listed and its details open
+      await orderHistoryPage.verifyOrderListed(orderNumber);
+      await orderHistoryPage.openOrder(orderNumber);
+      await orderHistoryPage.verifyOrderDetailsLoaded(orderNumber);
+    });
+
+    test('AC-003: Address book should list saved addresses', async ({ accountPage, addressBookPage }) => {
+      // Given: A signed-in customer with saved addresses
+      await accountPage.goto();
+      await accountPage.verifyAccountPageLoaded();
+
+      // When: The customer opens their address book
+      await accountPage.openAddressBook();
+
+      // Then: The saved addresses are listed
+      await addressBookPage.verifyAddressBookLoaded();
+      await addressBookPage.verifyHasAddresses();
+      expect((await addressBookPage.getAddresses()).length).toBeGreaterThan(0);
+    });
+  });
+}
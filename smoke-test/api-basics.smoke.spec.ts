@@ -0,0 +1,104 @@
+import { expect } from '@playwright/test';
+import { ProductVariant } from './api/types';
+import { getConfig } from './config/test-config';
+import { test } from './fixtures/checkout-state';
+import { TEST_DATA } from './utils/test-helpers';
+
+/**
+ * Smoke Test Suite: Saleor GraphQL API
+ *
+ * Verifies the backend independently of the storefront, so a red UI test can be
+ * triaged as "API down" (these fail too) or "frontend broken" (these pass):
+ * 1. Channels are configured
+ * 2. Products are listed per channel
+ * 3. Product details include purchasable variants
+ * 4. A checkout can be created and extended
+ * 5. A checkout can be completed into an order (offline storefront only)
+ */
+
+const config = getConfig();
+
+function purchasableVariant(variants: ProductVariant[]): ProductVariant {
+  const variant = variants.find(candidate => (candidate.quantityAvailable ?? 0) > 0);
+  expect(variant, 'product should have at least one variant in stock').toBeDefined();
+  return variant as ProductVariant;
+}
+
+test.describe('Saleor API - Backend Basic Functionality', () => {
+  test('API-001: Channels query should list every configured channel', async ({ saleorApi: api }) => {
+    // The channels query needs a staff or app token on a real Saleor API
+    test.skip(!config.offlineStorefront && !config.apiToken, 'API_TOKEN is required to query channels');
+
+    const channels = await api.channels();
+    const slugs = channels.map(channel => channel.slug);
+
+    for (const channel of config.channels) {
+      expect(slugs).toContain(channel);
+    }
+  });
+
+  for (const channel of config.channels) {
+    test(`API-002: Products query should return priced products [${channel}]`, async ({ saleorApi: api }) => {
+      const products = await api.products(channel);
+
+      expect(products.length).toBeGreaterThan(0);
+      for (const product of products) {
+        expect(product.name.trim()).toBeTruthy();
+        expect(product.slug.trim()).toBeTruthy();
+        expect(product.pricing?.priceRange?.start?.gross.amount).toBeGreaterThan(0);
+      }
+    });
+
+    test(`API-003: Product query should return variants with prices [${channel}]`, async ({ saleorApi: api }) => {
+      const product = await api.product(TEST_DATA.SAMPLE_PRODUCTS.MONOSPACE_TEE_SLUG, channel);
+
+      expect(product).not.toBeNull();
+      expect(product?.name).toBe(TEST_DATA.SAMPLE_PRODUCTS.MONOSPACE_TEE);
+      expect(product?.variants.length).toBeGreaterThan(0);
+      for (const variant of product?.variants ?? []) {
+        expect(variant.pricing?.price?.gross.amount).toBeGreaterThan(0);
+      }
+    });
+
+    test(`API-004: Checkout should be created and accept additional lines [${channel}]`, async ({ saleorApi: api }) => {
+      const [first, second] = await api.products(channel);
+      expect(second, 'channel should list at least two products').toBeDefined();
+
+      const firstDetail = await api.product(first!.slug, channel);
+      const secondDetail = await api.product(second!.slug, channel);
+      const firstVariant = purchasableVariant(firstDetail?.variants ?? []);
+      const secondVariant = purchasableVariant(secondDetail?.variants ?? []);
+
+      const created = await api.checkoutCreate({
+        channel,
+        email: 'smoke-test@example.com',
+        lines: [{ variantId: firstVariant.id, quantity: 1 }],
+      });
+      expect(created.channel.slug).toBe(channel);
+      expect(created.lines).toHaveLength(1);
+
+      const updated = await api.checkoutLinesAdd(created.id, [{ variantId: secondVariant.id, quantity: 2 }]);
+      expect(updated.lines).toHaveLength(2);
+      expect(updated.lines.map(line => line.variant.id)).toEqual([firstVariant.id, secondVariant.id]);
+      expect(updated.totalPrice.gross.amount).toBeGreaterThan(created.totalPrice.gross.amount);
+    });
+
+    test(`API-005: Checkout should complete into an order (offline storefront only) [${channel}]`, async ({ saleorApi: api }) => {
+      // A real Saleor API also needs addresses, a delivery method and a payment before completing
+      test.skip(!config.offlineStorefront, 'API-005 only runs against the offline storefront (OFFLINE_STOREFRONT=true)');
+
+      const product = await api.product(TEST_DATA.SAMPLE_PRODUCTS.MONOSPACE_TEE_SLUG, channel);
+      const variant = purchasableVariant(product?.variants ?? []);
+
+      const checkout = await api.checkoutCreate({
+        channel,
+        email: 'smoke-test@example.com',
+        lines: [{ variantId: variant.id, quantity: 1 }],
+      });
+      const order = await api.checkoutComplete(checkout.id);
+
+      expect(order.number).toMatch(/^\d+$/);
+      expect(order.total.gross.amount).toBe(checkout.totalPrice.gross.amount);
+    });
+  }
+});
@@ -0,0 +1,175 @@
+import { APIRequestContext } from '@playwright/test';
+import { getConfig } from '../config/test-config';
+import {
+  CHANNELS_QUERY,
+  CHECKOUT_COMPLETE_MUTATION,
+  CHECKOUT_CREATE_MUTATION,
+  CHECKOUT_LINES_ADD_MUTATION,
+  COLLECTION_QUERY,
+  PRODUCTS_QUERY,
+  PRODUCT_QUERY,
+} from './operations';
+import {
+  Channel,
+  Checkout,
+  CheckoutCreateInput,
+  CheckoutLineInput,
+  Collection,
+  GraphQLError,
+  GraphQLResponse,
+  MutationError,
+  Order,
+  ProductDetail,
+  ProductSummary,
+} from './types';
+
+/**
+ * Raised when the Saleor API is unreachable or answers with errors
+ * Keeps the raw errors around so test failures read as "API down" rather than "UI broken"
+ */
+export class SaleorApiError extends Error {
+  constructor(
+    message: string,
+    public readonly operationName: string,
+    public readonly graphQLErrors: GraphQLError[] = [],
+    public readonly mutationErrors: MutationError[] = []
+  ) {
+    super(`[${operationName}] ${message}`);
+    this.name = 'SaleorApiError';
+  }
+}
+
+export interface SaleorApiClientOptions {
+  /** GraphQL endpoint; defaults to API_URL from the test configuration */
+  apiUrl?: string;
+  /** Bearer token for operations that need an authenticated user, staff member or app */
+  token?: string;
+}
+
+interface MutationPayload {
+  errors: MutationError[];
+}
+
+/**
+ * Typed Saleor GraphQL client built on Playwright's request fixture
+ */
+export class SaleorApiClient {
+  readonly apiUrl: string;
+  private readonly token: string | undefined;
+
+  constructor(private readonly request: APIRequestContext, options: SaleorApiClientOptions = {}) {
+    this.apiUrl = options.apiUrl ?? getConfig().apiURL;
+    this.token = options.token;
+  }
+
+  /**
+   * Send a named GraphQL operation and return its data, throwing on transport or GraphQL errors
+   */
+  async execute<TData>(operationName: string, query: string, variables: Record<string, unknown> = {}): Promise<TData> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    let response;
+    try {
+      response = await this.request.post(this.apiUrl, {
+        data: { operationName, query, variables },
+        headers,
+      });
+    } catch (error) {
+      throw new SaleorApiError(`API unreachable at ${this.apiUrl}: ${(error as Error).message}`, operationName);
+    }
+
+    if (!response.ok()) {
+      throw new SaleorApiError(`HTTP ${response.status()} from ${this.apiUrl}`, operationName);
+    }
+
+    // Read as text first: a proxy or error page may answer with HTML instead of JSON
+    const text = await response.text();
+    let body: GraphQLResponse<TData>;
+    try {
+      body = JSON.parse(text) as GraphQLResponse<TData>;
+    } catch {
+      const excerpt = text.replace(/\s+/g, ' ').trim().slice(0, 200);
+      throw new SaleorApiError(`HTTP ${response.status()} from ${this.apiUrl} is not JSON: ${excerpt}`, operationName);
+    }
+    if (body.errors?.length) {
+      throw new SaleorApiError(body.errors.map(error => error.message).join('; '), operationName, body.errors);
+    }
+    if (!body.data) {
+      throw new SaleorApiError('Response contained no data', operationName);
+    }
+
+    return body.data;
+  }
+
+  /**
+   * List channels (requires a staff or app token on a real Saleor API)
+   */
+  async channels(): Promise<Channel[]> {
+    const data = await this.execute<{ channels: Channel[] | null }>('Channels', CHANNELS_QUERY);
+    return data.channels ?? [];
+  }
+
+  /**
+   * List the first products visible in a channel
+   */
+  async products(channel: string, first = 20): Promise<ProductSummary[]> {
+    const data = await this.execute<{
+      products: { edges: Array<{ node: ProductSummary }> } | null;
+    }>('Products', PRODUCTS_QUERY, { channel, first });
+    return data.products?.edges.map(edge => edge.node) ?? [];
+  }
+
+  /**
+   * Get a single product with its variants, or null if it is not visible in the channel
+   */
+  async product(slug: string, channel: string): Promise<ProductDetail | null> {
+    const data = await this.execute<{ product: ProductDetail | null }>('Product', PRODUCT_QUERY, { slug, channel });
+    return data.product;
+  }
+
+  /**
+   * Get a collection with its product count, or null if it is not visible in the channel
+   */
+  async collection(slug: string, channel: string): Promise<Collection | null> {
+    const data = await this.execute<{ collection: Collection | null }>('Collection', COLLECTION_QUERY, { slug, channel });
+    return data.collection;
+  }
+
+  async checkoutCreate(input: CheckoutCreateInput): Promise<Checkout> {
+    const data = await this.execute<{ checkoutCreate: MutationPayload & { checkout: Checkout | null } }>(
+      'CheckoutCreate', CHECKOUT_CREATE_MUTATION, { input }
+    );
+    return this.unwrap('CheckoutCreate', data.checkoutCreate, data.checkoutCreate.checkout);
+  }
+
+  async checkoutLinesAdd(checkoutId: string, lines: CheckoutLineInput[]): Promise<Checkout> {
+    const data = await this.execute<{ checkoutLinesAdd: MutationPayload & { checkout: Checkout | null } }>(
+      'CheckoutLinesAdd', CHECKOUT_LINES_ADD_MUTATION, { id: checkoutId, lines }
+    );
+    return this.unwrap('CheckoutLinesAdd', data.checkoutLinesAdd, data.checkoutLinesAdd.checkout);
+  }
+
+  async checkoutComplete(checkoutId: string): Promise<Order> {
+    const data = await this.execute<{ checkoutComplete: MutationPayload & { order: Order | null } }>(
+      'CheckoutComplete', CHECKOUT_COMPLETE_MUTATION, { id: checkoutId }
+    );
+    return this.unwrap('CheckoutComplete', data.checkoutComplete, data.checkoutComplete.order);
+  }
+
+  /**
+   * Turn a mutation payload into its result, surfacing payload errors as SaleorApiError
+   */
+  private unwrap<T>(operationName: string, payload: MutationPayload, result: T | null): T {
+    if (payload.errors.length > 0) {
+      const message = payload.errors.map(error => `${error.field ?? 'input'}: ${error.message ?? error.code}`).join('; ');
+      throw new SaleorApiError(message, operationName, [], payload.errors);
+    }
+    if (result === null) {
+      throw new SaleorApiError('Mutation returned no result', operationName);
+    }
+    return result;
+  }
+}
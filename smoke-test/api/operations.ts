@@ -0,0 +1,172 @@
+/**
+ * GraphQL documents sent by SaleorApiClient
+ * Every document is a named operation so mocks can dispatch on operationName
+ */
+
+const MONEY_FIELDS = `
+  gross {
+    amount
+    currency
+  }
+`;
+
+const PRODUCT_SUMMARY_FIELDS = `
+  id
+  slug
+  name
+  thumbnail {
+    url
+  }
+  pricing {
+    priceRange {
+      start {
+        ${MONEY_FIELDS}
+      }
+    }
+  }
+`;
+
+const CHECKOUT_FIELDS = `
+  id
+  token
+  email
+  channel {
+    slug
+  }
+  lines {
+    id
+    quantity
+    totalPrice {
+      ${MONEY_FIELDS}
+    }
+    variant {
+      id
+      name
+      product {
+        name
+        slug
+      }
+    }
+  }
+  totalPrice {
+    ${MONEY_FIELDS}
+  }
+`;
+
+const MUTATION_ERROR_FIELDS = `
+  field
+  message
+  code
+`;
+
+export const CHANNELS_QUERY = `
+  query Channels {
+    channels {
+      id
+      slug
+      name
+      currencyCode
+      isActive
+    }
+  }
+`;
+
+export const PRODUCTS_QUERY = `
+  query Products($channel: String!, $first: Int!, $after: String) {
+    products(channel: $channel, first: $first, after: $after) {
+      edges {
+        node {
+          ${PRODUCT_SUMMARY_FIELDS}
+        }
+      }
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+    }
+  }
+`;
+
+export const PRODUCT_QUERY = `
+  query Product($slug: String!, $channel: String!) {
+    product(slug: $slug, channel: $channel) {
+      ${PRODUCT_SUMMARY_FIELDS}
+      description
+      variants {
+        id
+        name
+        quantityAvailable
+        attributes {
+          attribute {
+            name
+          }
+          values {
+            name
+          }
+        }
+        pricing {
+          price {
+            ${MONEY_FIELDS}
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const COLLECTION_QUERY = `
+  query Collection($slug: String!, $channel: String!) {
+    collection(slug: $slug, channel: $channel) {
+      id
+      slug
+      name
+      products(first: 1) {
+        totalCount
+      }
+    }
+  }
+`;
+
+export const CHECKOUT_CREATE_MUTATION = `
+  mutation CheckoutCreate($input: CheckoutCreateInput!) {
+    checkoutCreate(input: $input) {
+      checkout {
+        ${CHECKOUT_FIELDS}
+      }
+      errors {
+        ${MUTATION_ERROR_FIELDS}
+      }
+    }
+  }
+`;
+
+export const CHECKOUT_LINES_ADD_MUTATION = `
+  mutation CheckoutLinesAdd($id: ID!, $lines: [CheckoutLineInput!]!) {
+    checkoutLinesAdd(id: $id, lines: $lines) {
+      checkout {
+        ${CHECKOUT_FIELDS}
+      }
+      errors {
+        ${MUTATION_ERROR_FIELDS}
+      }
+    }
+  }
+`;
+
+export const CHECKOUT_COMPLETE_MUTATION = `
+  mutation CheckoutComplete($id: ID!) {
+    checkoutComplete(id: $id) {
+      order {
+        id
+        number
+        status
+        total {
+          ${MONEY_FIELDS}
+        }
+      }
+      errors {
+        ${MUTATION_ERROR_FIELDS}
+      }
+    }
+  }
+`;
@@ -0,0 +1,127 @@
+/**
+ * Types for the subset of the Saleor GraphQL schema used by the smoke tests
+ */
+
+export interface ApiMoney {
+  amount: number;
+  currency: string;
+}
+
+export interface TaxedMoney {
+  gross: ApiMoney;
+}
+
+export interface Channel {
+  id: string;
+  slug: string;
+  name: string;
+  currencyCode: string;
+  isActive: boolean;
+}
+
+export interface ProductSummary {
+  id: string;
+  slug: string;
+  name: string;
+  thumbnail: { url: string } | null;
+  pricing: {
+    priceRange: { start: TaxedMoney | null } | null;
+  } | null;
+}
+
+export interface ProductVariant {
+  id: string;
+  name: string;
+  quantityAvailable: number | null;
+  attributes: Array<{
+    attribute: { name: string };
+    values: Array<{ name: string }>;
+  }>;
+  pricing: { price: TaxedMoney | null } | null;
+}
+
+export interface ProductDetail extends ProductSummary {
+  description: string | null;
+  variants: ProductVariant[];
+}
+
+export interface Collection {
+  id: string;
+  slug: string;
+  name: string;
+  products: { totalCount: number | null } | null;
+}
+
+export interface CheckoutLine {
+  id: string;
+  quantity: number;
+  totalPrice: TaxedMoney;
+  variant: {
+    id: string;
+    name: string;
+    product: { name: string; slug: string };
+  };
+}
+
+export interface Checkout {
+  id: string;
+  token: string;
+  email: string | null;
+  channel: { slug: string };
+  lines: CheckoutLine[];
+  totalPrice: TaxedMoney;
+}
+
+export interface Order {
+  id: string;
+  number: string;
+  status: string;
+  total: TaxedMoney;
+}
+
+export interface CheckoutLineInput {
+  variantId: string;
+  quantity: number;
+}
+
+export interface AddressInput {
+  firstName: string;
+  lastName: string;
+  streetAddress1: string;
+  city: string;
+  postalCode: string;
+  country: string;
+  countryArea?: string;
+  phone?: string;
+}
+
+export interface CheckoutCreateInput {
+  channel: string;
+  email?: string;
+  lines: CheckoutLineInput[];
+  shippingAddress?: AddressInput;
+  billingAddress?: AddressInput;
+}
+
+/**
+ * Error reported inside a mutation payload (e.g. checkoutCreate.errors)
+ */
+export interface MutationError {
+  field: string | null;
+  message: string | null;
+  code: string;
+}
+
+/**
+ * Error reported at the top level of a GraphQL response
+ */
+export interface GraphQLError {
+  message: string;
+  path?: Array<string | number>;
+  extensions?: Record<string, unknown>;
+}
+
+export interface GraphQLResponse<TData> {
+  data?: TData | null;
+  errors?: GraphQLError[];
+}
@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FullConfig, chromium, firefox, webkit } from '@playwright/test';
+import { SmokeTestConfig, getConfig } from '../config/test-config';
+import { UserRole } from '../config/profiles';
+import { LoginPage } from '../page-objects/LoginPage';
+
+/**
+ * Authenticated sessions
+ * Global setup signs in once per AUTH_ROLES role through the storefront's sign-in page and saves
+ * the browser storageState (cookies and local storage); projects reuse it through use.storageState.
+ */
+
+const BROWSER_TYPES = { chromium, firefox, webkit } as const;
+
+/**
+ * Raised when global setup can't sign in as a role, e.g. wrong credentials or a broken sign-in page
+ */
+export class AuthSetupError extends Error {
+  constructor(public readonly role: UserRole, cause: unknown) {
+    super(`Could not sign in as ${role}: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'AuthSetupError';
+  }
+}
+
+/**
+ * File holding the saved storageState of a role
+ */
+export function storageStatePath(role: UserRole, config: SmokeTestConfig = getConfig()): string {
+  return path.resolve(config.auth.stateDir, `${role}.json`);
+}
+
+/**
+ * Sign in as every configured role and save its storageState
+ */
+export async function saveStorageStates(fullConfig: FullConfig, config: SmokeTestConfig = getConfig()): Promise<void> {
+  if (config.auth.roles.length === 0) {
+    return;
+  }
+
+  // Launch the browser build the first project uses (e.g. the chrome channel)
+  const browserChannel = fullConfig.projects[0]?.use.channel;
+  const browser = await BROWSER_TYPES[config.browser].launch({
+    headless: config.headless,
+    ...(browserChannel ? { channel: browserChannel } : {}),
+  });
+  fs.mkdirSync(config.auth.stateDir, { recursive: true });
+
+  try {
+    for (const role of config.auth.roles) {
+      const context = await browser.newContext({ baseURL: config.baseURL, ignoreHTTPSErrors: true });
+      context.setDefaultTimeout(config.timeouts.action);
+      context.setDefaultNavigationTimeout(config.timeouts.navigation);
+
+      try {
+        const loginPage = new LoginPage(await context.newPage(), config.defaultChannel, config);
+        await loginPage.goto();
+        await loginPage.login(config.users[role]);
+        await loginPage.verifyLoggedIn();
+        await context.storageState({ path: storageStatePath(role, config) });
+        console.log(`Signed in as ${role} (${config.users[role].email})`);
+      } catch (error) {
+        throw new AuthSetupError(role, error);
+      } finally {
+        await context.close();
+      }
+    }
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,110 @@
+import { mergeTests } from '@playwright/test';
+import { SaleorApiClient } from './api/SaleorApiClient';
+import { test as checkoutStateTest } from './fixtures/checkout-state';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as pageGuardTest } from './fixtures/page-guard';
+import { test as storefrontTest, expect } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+import { CollectionPage } from './page-objects/CollectionPage';
+import { HomePage } from './page-objects/HomePage';
+import { ListedProduct } from './page-objects/ProductListingPage';
+
+const test = mergeTests(storefrontTest, checkoutStateTest, faultInjectionTest, pageGuardTest);
+
+/**
+ * Smoke Test Suite: Category and Collection Browsing
+ *
+ * Enters listings from the navigation menu, follows their pagination and checks that
+ * no listing is empty (e.g. after a catalog import) and every product card leads to a product page.
+ * Runs once per configured channel (CHANNELS)
+ */
+
+/**
+ * Open the navigation's collections until one has more products (per the API) than its first page shows
+ * Returns that collection's first page, or null when every collection fits on one page
+ */
+async function openPaginatedCollection(
+  homePage: HomePage,
+  collectionPage: CollectionPage,
+  api: SaleorApiClient,
+  channel: string
+): Promise<ListedProduct[] | null> {
+  await homePage.goto();
+  const urls = await homePage.getNavigationCollectionUrls();
+  expect(urls.length, 'the navigation should offer collections').toBeGreaterThan(0);
+
+  for (const url of urls) {
+    const slug = new URL(url).pathname.split('/').filter(Boolean).pop() ?? '';
+    const totalCount = (await api.collection(slug, channel))?.products?.totalCount ?? 0;
+    await collectionPage.goto(slug);
+    await collectionPage.verifyListingLoaded();
+    await collectionPage.verifyHasProducts();
+
+    const firstPage = await collectionPage.getProducts();
+    if (totalCount > firstPage.length) {
+      return firstPage;
+    }
+  }
+  return null;
+}
+
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - Browsing`, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('BR-001: Navigation menu should lead into a category with products', async ({ homePage, categoryPage, productPage }) => {
+      // Given: User is on the homepage
+      await homePage.goto();
+      await homePage.verifyHomepageLoaded();
+
+      // When: User opens a category from the navigation menu
+      await homePage.openCategoryFromNavigation();
+
+      // Then: The category lists products and its first product opens
+      await categoryPage.verifyListingLoaded();
+      await categoryPage.verifyHasProducts();
+      await categoryPage.openProduct();
+      await productPage.verifyProductPageLoaded();
+    });
+
+    test('BR-002: Every category in the navigation should list reachable products', async ({ homePage, categoryPage }) => {
+      // Given: The categories offered by the navigation menu
+      await homePage.goto();
+      const categories = await homePage.getNavigationCategories();
+      expect(categories.length).toBeGreaterThan(0);
+
+      for (const category of categories) {
+        // When: User opens the category and pages through it
+        await homePage.goto();
+        await homePage.openCategoryFromNavigation(category);
+        await categoryPage.verifyListingLoaded();
+        await categoryPage.verifyHasProducts();
+        const products = await categoryPage.collectAllProducts();
+
+        // Then: Every product card links to a working product page
+        await categoryPage.verifyProductLinks(products);
+      }
+    });
+
+    test('BR-003: Collection should follow pagination through all its products', async ({ homePage, collectionPage, productPage, saleorApi }) => {
+      // Given: User opens a navigation collection with more products than fit on its first page
+      const firstPage = await openPaginatedCollection(homePage, collectionPage, saleorApi, channel);
+      if (!firstPage) {
+        test.skip(true, `No navigation collection in ${channel} has more products than its first page shows`);
+        return;
+      }
+
+      // When: User follows the pagination to the end
+      const products = await collectionPage.collectListedProducts();
+
+      // Then: Pagination added products, every product is listed once with a working product page,
+      // and the last page's products open
+      const urls = products.map(product => product.url);
+      expect(urls.filter((url, index) => urls.indexOf(url) !== index), 'no product should be listed twice').toEqual([]);
+      expect(products.length, 'following the pagination should list more products than the first page').toBeGreaterThan(firstPage.length);
+      await collectionPage.verifyProductLinks(products);
+      await collectionPage.openProduct();
+      await productPage.verifyProductPageLoaded();
+    });
+  });
+}
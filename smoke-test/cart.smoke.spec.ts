@@ -0,0 +1,74 @@
+import { mergeTests } from '@playwright/test';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as pageGuardTest } from './fixtures/page-guard';
+import { test as storefrontTest, expect } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+import { CartPage } from './page-objects/CartPage';
+import { HomePage } from './page-objects/HomePage';
+import { Money } from './utils/money';
+
+const test = mergeTests(storefrontTest, faultInjectionTest, pageGuardTest);
+
+/**
+ * Smoke Test Suite: Cart Lifecycle
+ *
+ * Walks one cart through its whole life in the UI: two products added, a quantity increased, a line removed
+ * and finally the last line removed. After every step the header badge, the line names and the totals are checked.
+ * Runs once per configured channel (CHANNELS)
+ */
+
+/**
+ * Verify the cart after a step and return its total
+ */
+async function verifyCartState(cartPage: CartPage, homePage: HomePage, expectedLines: Array<{ name: string; quantity: number }>): Promise<Money> {
+  const expectedQuantity = expectedLines.reduce((sum, line) => sum + line.quantity, 0);
+  await expect.poll(() => homePage.getCartBadgeCount(), { message: 'cart badge should count every item' }).toBe(expectedQuantity);
+
+  const lines = await cartPage.getLines();
+  expect(lines.map(line => ({ name: line.name, quantity: line.quantity })))
+    .toEqual(expectedLines.map(line => ({ name: expect.stringContaining(line.name), quantity: line.quantity })));
+  await cartPage.verifyCartArithmetic();
+  return cartPage.getTotalPrice();
+}
+
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - Cart Lifecycle`, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('CL-001: Cart should follow adding, updating and removing lines until it is empty', async ({ storefront, homePage, cartPage }) => {
+      // Given: Two different products have been added to the cart
+      const firstProduct = await storefront.addProductToCart(0);
+      const secondProduct = await storefront.addProductToCart(1);
+      expect(secondProduct).not.toBe(firstProduct);
+      const initialTotal = await verifyCartState(cartPage, homePage, [
+        { name: firstProduct, quantity: 1 },
+        { name: secondProduct, quantity: 1 },
+      ]);
+
+      // When: The first line's quantity is increased to 3
+      const [firstLine, secondLine] = await cartPage.getLines();
+      await cartPage.updateItemQuantity(0, 3);
+
+      // Then: The badge counts 4 items and the total grows by two more of the first product
+      const increasedTotal = await verifyCartState(cartPage, homePage, [
+        { name: firstProduct, quantity: 3 },
+        { name: secondProduct, quantity: 1 },
+      ]);
+      expect(increasedTotal.toString()).toBe(initialTotal.plus(firstLine!.unitPrice.times(2)).toString());
+
+      // When: The first line is removed
+      await cartPage.removeFirstItem();
+
+      // Then: Only the second product is left and the total is its line total
+      const remainingTotal = await verifyCartState(cartPage, homePage, [{ name: secondProduct, quantity: 1 }]);
+      expect(remainingTotal.toString()).toBe(secondLine!.total.toString());
+
+      // When: The last line is removed
+      await cartPage.removeFirstItem();
+
+      // Then: The cart shows its empty state and the badge is gone
+      await cartPage.verifyCartEmpty();
+      await expect.poll(() => homePage.getCartBadgeCount()).toBe(0);
+    });
+  });
+}
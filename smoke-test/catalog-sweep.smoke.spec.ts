@@ -0,0 +1,41 @@
+import { mergeTests } from '@playwright/test';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as storefrontTest, expect } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+import { collectProductUrls } from './catalog-sweep/crawler';
+import { describeIssues, recordSweepResults, sweepProducts } from './catalog-sweep/sweep';
+
+const test = mergeTests(storefrontTest, faultInjectionTest);
+
+/**
+ * Catalog Sweep (CATALOG_SWEEP=true, npm run test:catalog-sweep)
+ *
+ * Crawls every product URL reachable from the homepage, categories and collections, then checks each
+ * product page with up to CATALOG_SWEEP_CONCURRENCY pages open at once. Every broken page is listed in
+ * test-results/catalog-sweep.md. Only runs in catalog sweep mode; regular runs ignore this file.
+ * Runs once per configured channel (CHANNELS)
+ */
+
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - Catalog Sweep`, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('SW-001: Every product page should show a price, an image and a purchasable variant', async ({ context, homePage, categoryPage, collectionPage }) => {
+      const { timeouts, catalogSweep } = getConfig();
+
+      // Given: Every product URL in the catalog, crawled within three test timeouts
+      const crawlTimeout = timeouts.test * 3;
+      test.setTimeout(crawlTimeout);
+      const urls = await collectProductUrls(homePage, categoryPage, collectionPage);
+      expect(urls.length, 'the crawl should find product pages').toBeGreaterThan(0);
+
+      // When: Each product page is checked, a few at a time (the timeout covers the whole test, crawl included)
+      test.setTimeout(crawlTimeout + timeouts.test * (2 + Math.ceil(urls.length / catalogSweep.concurrency)));
+      const results = await sweepProducts(context, channel, urls, catalogSweep.concurrency);
+      await recordSweepResults(results);
+
+      // Then: No product page is broken
+      expect(results.filter(result => result.issues.length > 0).map(describeIssues)).toEqual([]);
+    });
+  });
+}
@@ -0,0 +1,58 @@
+import { HomePage } from '../page-objects/HomePage';
+import { ProductListingPage } from '../page-objects/ProductListingPage';
+import { CategoryPage } from '../page-objects/CategoryPage';
+import { CollectionPage } from '../page-objects/CollectionPage';
+import { TEST_DATA } from '../utils/test-helpers';
+
+/**
+ * Catalog crawler
+ * Collects product page URLs from the homepage and from every category and collection in the
+ * navigation menu, following each listing's pagination.
+ */
+
+/**
+ * Collect the distinct product URLs of the channel the page objects are bound to
+ */
+export async function collectProductUrls(
+  home: HomePage,
+  categories: CategoryPage,
+  collections: CollectionPage,
+  maxPages: number = TEST_DATA.BROWSE.MAX_PAGES
+): Promise<string[]> {
+  const urls = new Set<string>();
+
+  await home.goto();
+  await home.verifyHomepageLoaded();
+  for (const url of await home.getProductUrls()) {
+    urls.add(normaliseUrl(url));
+  }
+
+  const listings: Array<[ProductListingPage, string[]]> = [
+    [categories, await home.getNavigationCategoryUrls()],
+    [collections, await home.getNavigationCollectionUrls()],
+  ];
+  for (const [listingPage, listingUrls] of listings) {
+    for (const listingUrl of listingUrls) {
+      await listingPage.goto(lastPathSegment(listingUrl));
+      await listingPage.verifyListingLoaded();
+      for (const product of await listingPage.collectAllProducts(maxPages)) {
+        urls.add(normaliseUrl(product.url));
+      }
+    }
+  }
+
+  return [...urls].sort();
+}
+
+/**
+ * Drop query and hash so the same product linked with different parameters is visited once
+ */
+function normaliseUrl(url: string): string {
+  const { origin, pathname } = new URL(url);
+  return `${origin}${pathname}`;
+}
+
+function lastPathSegment(url: string): string {
+  const segments = new URL(url).pathname.split('/').filter(Boolean);
+  return decodeURIComponent(segments[segments.length - 1] ?? '');
+}
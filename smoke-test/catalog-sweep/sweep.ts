@@ -0,0 +1,134 @@
+import { BrowserContext, test } from '@playwright/test';
+import { ProductPage } from '../page-objects/ProductPage';
+
+/**
+ * Catalog sweep
+ * Visits product pages with a capped number of tabs open at once and records what is wrong with
+ * each. Results are attached to the test and aggregated by the catalog sweep reporter.
+ */
+
+export const CATALOG_SWEEP_ATTACHMENT = 'catalog-sweep';
+
+export type ProductIssueKind = 'error-page' | 'missing-price' | 'missing-image' | 'no-variants' | 'check-failed';
+
+export interface ProductIssue {
+  kind: ProductIssueKind;
+  detail: string;
+}
+
+export interface ProductSweepResult {
+  url: string;
+  channel: string;
+  /** Product title as shown on the page; empty when the page did not render a product */
+  name: string;
+  issues: ProductIssue[];
+}
+
+/**
+ * Check every URL, at most `concurrency` pages at a time, and return the results in URL order
+ */
+export async function sweepProducts(
+  context: BrowserContext,
+  channel: string,
+  urls: string[],
+  concurrency: number
+): Promise<ProductSweepResult[]> {
+  const queue = [...urls];
+  const results = new Map<string, ProductSweepResult>();
+
+  const worker = async (): Promise<void> => {
+    const page = await context.newPage();
+    const productPage = new ProductPage(page, channel);
+    try {
+      for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+        results.set(url, await checkProduct(productPage, url));
+      }
+    } finally {
+      await page.close();
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, urls.length) }, worker));
+  return urls.map(url => results.get(url)).filter((result): result is ProductSweepResult => result !== undefined);
+}
+
+/**
+ * Open one product page and run the product page checks against it
+ */
+async function checkProduct(productPage: ProductPage, url: string): Promise<ProductSweepResult> {
+  const result: ProductSweepResult = { url, channel: productPage.channel, name: '', issues: [] };
+  const issue = (kind: ProductIssueKind, detail: string): void => {
+    result.issues.push({ kind, detail });
+  };
+  const attempt = async (check: string, run: () => Promise<void>): Promise<void> => {
+    try {
+      await run();
+    } catch (error) {
+      issue('check-failed', `${check}: ${firstLine(error)}`);
+    }
+  };
+
+  try {
+    const response = await productPage.page.goto(url);
+    await productPage.waitForPageLoad();
+    if (response && !response.ok()) {
+      issue('error-page', `HTTP ${response.status()}`);
+      return result;
+    }
+  } catch (error) {
+    issue('error-page', firstLine(error));
+    return result;
+  }
+
+  result.name = await productPage.getProductTitle().catch(() => '');
+  if (!result.name) {
+    issue('error-page', 'no product title on the page');
+    return result;
+  }
+
+  await attempt('verifyProductInformation', () => productPage.verifyProductInformation());
+  try {
+    if (!(await productPage.getProductPrice())) {
+      issue('missing-price', 'no price shown');
+    }
+  } catch (error) {
+    issue('missing-price', `price is not readable: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  await attempt('verifyProductImage', () => productPage.verifyProductImage());
+  if (!(await productPage.isProductImageLoaded())) {
+    issue('missing-image', 'product image absent or failed to load');
+  }
+
+  // Single-variant products have no options but come preselected; with no options
+  // and nothing to add, the product has no variants in this channel
+  if (await productPage.getVariantOptionCount() > 0) {
+    await productPage.selectAnyVariant();
+  } else if (!(await productPage.isAddToCartEnabled())) {
+    issue('no-variants', 'no variant options and add to cart unavailable');
+    return result;
+  }
+  await attempt('verifyAddToCartAvailable', () => productPage.verifyAddToCartAvailable());
+
+  return result;
+}
+
+function firstLine(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  // Strip the ANSI colouring Playwright adds to assertion messages
+  return message.replace(/\u001b\[\d+m/g, '').split('\n')[0] ?? message;
+}
+
+/**
+ * Attach sweep results to the running test
+ */
+export async function recordSweepResults(results: ProductSweepResult[]): Promise<void> {
+  await test.info().attach(CATALOG_SWEEP_ATTACHMENT, { body: JSON.stringify(results), contentType: 'application/json' });
+}
+
+/**
+ * One line per broken product, for assertion messages
+ */
+export function describeIssues(result: ProductSweepResult): string {
+  return `${result.name || result.url}: ${result.issues.map(({ kind, detail }) => `${kind} (${detail})`).join(', ')}`;
+}
@@ -0,0 +1,86 @@
+import { mergeTests } from '@playwright/test';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as pageGuardTest } from './fixtures/page-guard';
+import { test as storefrontTest, expect } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+import { GlobalTestUtils, TEST_DATA } from './utils/test-helpers';
+import { ADDRESSES, ADDRESS_COUNTRIES } from './utils/addresses';
+
+const test = mergeTests(storefrontTest, faultInjectionTest, pageGuardTest);
+
+/**
+ * Smoke Test Suite: Checkout
+ *
+ * Places a real order as a guest: cart -> address -> delivery -> dummy payment -> confirmation.
+ * CO-002 repeats it for every country in the address library, as address validation differs per country.
+ * CO-003 checks out as a signed-in customer with a saved address; it runs in the customer project only.
+ * Runs once per configured channel (CHANNELS)
+ */
+
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - Guest Checkout`, { tag: '@guest' }, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('CO-001: Guest checkout should place an order with the dummy gateway', async ({ storefront, checkoutPage }) => {
+      // Given: A product is in the cart
+      await storefront.addAnyProductToCart();
+
+      // When: Guest fills in checkout details and pays
+      await storefront.goToCheckout();
+      await checkoutPage.verifyCheckoutPageLoaded();
+      await checkoutPage.fillEmail(GlobalTestUtils.generateRandomEmail());
+      await checkoutPage.fillShippingAddress(TEST_DATA.GUEST_CHECKOUT.SHIPPING_ADDRESS);
+      await checkoutPage.useShippingAddressForBilling();
+      await checkoutPage.selectDeliveryMethod(TEST_DATA.GUEST_CHECKOUT.DELIVERY_METHOD);
+      await checkoutPage.payWithDummyGateway();
+
+      // Then: The order is confirmed with an order number
+      await checkoutPage.verifyOrderConfirmation();
+      expect(await checkoutPage.getOrderNumber()).toMatch(/^\w+$/);
+
+      // Take screenshot for verification
+      await checkoutPage.takeScreenshot('guest-checkout-order-confirmed');
+    });
+
+    for (const country of ADDRESS_COUNTRIES) {
+      test(`CO-002: Checkout should accept ${country} shipping and billing addresses`, async ({ storefront, checkoutPage }) => {
+        // Given: A guest with a product in the cart is at checkout
+        await storefront.addAnyProductToCart();
+        await storefront.goToCheckout();
+        await checkoutPage.verifyCheckoutPageLoaded();
+
+        // When: The country's address is entered for shipping and, separately, for billing
+        await checkoutPage.fillEmail(GlobalTestUtils.generateRandomEmail());
+        await checkoutPage.fillShippingAddress(ADDRESSES[country]);
+        await checkoutPage.fillBillingAddress(ADDRESSES[country]);
+        await checkoutPage.selectDeliveryMethod();
+        await checkoutPage.payWithDummyGateway();
+
+        // Then: Both addresses pass validation and the order is placed
+        await checkoutPage.verifyOrderConfirmation();
+      });
+    }
+  });
+
+  test.describe(`Saleor Storefront [${channel}] - Customer Checkout`, { tag: '@customer' }, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('CO-003: Signed-in customer should place an order with a saved address', async ({ storefront, checkoutPage }) => {
+      // Given: A signed-in customer has a product in the cart
+      await storefront.addAnyProductToCart();
+
+      // When: The customer checks out with their default saved address
+      await storefront.goToCheckout();
+      await checkoutPage.verifyCheckoutPageLoaded();
+      await checkoutPage.verifyUserLoggedIn();
+      await checkoutPage.selectSavedShippingAddress();
+      await checkoutPage.useShippingAddressForBilling();
+      await checkoutPage.selectDeliveryMethod();
+      await checkoutPage.payWithDummyGateway();
+
+      // Then: The order is confirmed with an order number
+      await checkoutPage.verifyOrderConfirmation();
+      expect(await checkoutPage.getOrderNumber()).toMatch(/^\w+$/);
+    });
+  });
+}
@@ -0,0 +1,16 @@
+import type { PerformanceBudget } from '../performance/web-vitals';
+
+/**
+ * Per-page performance budgets checked during the smoke run
+ * Timing budgets follow the Web Vitals "good" thresholds; size and request budgets
+ * leave headroom over the Saleor demo storefront so only real regressions trip them.
+ */
+
+export type PerformancePage = 'home' | 'product' | 'cart' | 'checkout';
+
+export const PERFORMANCE_BUDGETS: Record<PerformancePage, PerformanceBudget> = {
+  home: { ttfb: 800, fcp: 1800, lcp: 2500, cls: 0.1, transferSize: 3_000_000, requestCount: 120 },
+  product: { ttfb: 800, fcp: 1800, lcp: 2500, cls: 0.1, transferSize: 3_000_000, requestCount: 120 },
+  cart: { ttfb: 800, fcp: 1800, lcp: 2500, cls: 0.1, transferSize: 2_000_000, requestCount: 80 },
+  checkout: { ttfb: 800, fcp: 1800, lcp: 2500, cls: 0.1, transferSize: 2_500_000, requestCount: 100 },
+};
@@ -0,0 +1,138 @@
+/**
+ * Named configuration profiles for Saleor smoke tests
+ * A profile provides defaults; values from .env and the process environment override them
+ */
+
+export type ProfileName = 'local' | 'staging-mirror' | 'ci' | 'offline';
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+export type ScreenshotMode = 'off' | 'on' | 'only-on-failure';
+
+export type VideoMode = 'off' | 'on' | 'retain-on-failure' | 'on-first-retry';
+
+export type TraceMode = 'off' | 'on' | 'retain-on-failure' | 'on-first-retry';
+
+/**
+ * Accounts global setup can log in as; each gets its own saved storageState
+ */
+export type UserRole = 'customer' | 'staff';
+
+export const USER_ROLES: readonly UserRole[] = ['customer', 'staff'];
+
+/**
+ * What a detected problem does to the test: fail it, mark it degraded, or nothing
+ */
+export type EnforcementMode = 'fail' | 'degraded' | 'off';
+
+/**
+ * Raw profile defaults, expressed with the same keys as env.example
+ */
+export type ProfileDefaults = Partial<Record<string, string>>;
+
+export const PROFILE_NAMES: readonly ProfileName[] = ['local', 'staging-mirror', 'ci', 'offline'];
+
+export const PROFILES: Record<ProfileName, ProfileDefaults> = {
+  // Developer laptop with the storefront running on localhost:3000
+  'local': {
+    BASE_URL: 'http://localhost:3000',
+    API_URL: 'http://localhost:8000/graphql/',
+    CHANNELS: 'default-channel',
+    HEADLESS: 'true',
+    BROWSER: 'chromium',
+    DEFAULT_TIMEOUT: '30000',
+    ACTION_TIMEOUT: '5000',
+    NAVIGATION_TIMEOUT: '15000',
+    EXPECT_TIMEOUT: '5000',
+    ELEMENT_TIMEOUT: '2000',
+    VIEWPORT_WIDTH: '1280',
+    VIEWPORT_HEIGHT: '720',
+    SCREENSHOT_MODE: 'only-on-failure',
+    VIDEO_MODE: 'off',
+    TRACE_MODE: 'off',
+    DURATION_TOLERANCE: '50',
+    CATALOG_SWEEP_CONCURRENCY: '4',
+    LINK_CHECK_DEPTH: '2',
+    LINK_CHECK_MAX_LINKS: '200',
+    PERF_BUDGET_MODE: 'degraded',
+    PAGE_GUARD_MODE: 'degraded',
+  },
+
+  // Remote storefront mirroring staging - BASE_URL and API_URL must be provided explicitly
+  'staging-mirror': {
+    CHANNELS: 'default-channel',
+    HEADLESS: 'true',
+    BROWSER: 'chromium',
+    DEFAULT_TIMEOUT: '60000',
+    ACTION_TIMEOUT: '10000',
+    NAVIGATION_TIMEOUT: '30000',
+    EXPECT_TIMEOUT: '10000',
+    ELEMENT_TIMEOUT: '5000',
+    VIEWPORT_WIDTH: '1280',
+    VIEWPORT_HEIGHT: '720',
+    SCREENSHOT_MODE: 'only-on-failure',
+    VIDEO_MODE: 'retain-on-failure',
+    TRACE_MODE: 'retain-on-failure',
+    DURATION_TOLERANCE: '100',
+    CATALOG_SWEEP_CONCURRENCY: '2',
+    LINK_CHECK_DEPTH: '2',
+    LINK_CHECK_MAX_LINKS: '200',
+    PERF_BUDGET_MODE: 'degraded',
+    PAGE_GUARD_MODE: 'degraded',
+  },
+
+  // CI runners - same storefront location as local, but keep evidence of failures
+  'ci': {
+    BASE_URL: 'http://localhost:3000',
+    API_URL: 'http://localhost:8000/graphql/',
+    CHANNELS: 'default-channel',
+    HEADLESS: 'true',
+    BROWSER: 'chromium',
+    DEFAULT_TIMEOUT: '30000',
+    ACTION_TIMEOUT: '5000',
+    NAVIGATION_TIMEOUT: '15000',
+    EXPECT_TIMEOUT: '5000',
+    ELEMENT_TIMEOUT: '2000',
+    VIEWPORT_WIDTH: '1280',
+    VIEWPORT_HEIGHT: '720',
+    SCREENSHOT_MODE: 'only-on-failure',
+    VIDEO_MODE: 'retain-on-failure',
+    TRACE_MODE: 'retain-on-failure',
+    DURATION_TOLERANCE: '50',
+    CATALOG_SWEEP_CONCURRENCY: '4',
+    LINK_CHECK_DEPTH: '2',
+    LINK_CHECK_MAX_LINKS: '200',
+    PERF_BUDGET_MODE: 'degraded',
+    PAGE_GUARD_MODE: 'degraded',
+  },
+
+  // Bundled offline storefront (smoke-test/offline-storefront) - no Saleor stack required
+  'offline': {
+    BASE_URL: 'http://localhost:3100',
+    API_URL: 'http://localhost:3100/graphql/',
+    CHANNELS: 'default-channel,channel-pln',
+    OFFLINE_STOREFRONT: 'true',
+    HEADLESS: 'true',
+    BROWSER: 'chromium',
+    DEFAULT_TIMEOUT: '30000',
+    ACTION_TIMEOUT: '5000',
+    NAVIGATION_TIMEOUT: '15000',
+    EXPECT_TIMEOUT: '5000',
+    ELEMENT_TIMEOUT: '2000',
+    VIEWPORT_WIDTH: '1280',
+    VIEWPORT_HEIGHT: '720',
+    SCREENSHOT_MODE: 'only-on-failure',
+    VIDEO_MODE: 'off',
+    TRACE_MODE: 'retain-on-failure',
+    DURATION_TOLERANCE: '50',
+    CATALOG_SWEEP_CONCURRENCY: '4',
+    LINK_CHECK_DEPTH: '2',
+    LINK_CHECK_MAX_LINKS: '200',
+    PERF_BUDGET_MODE: 'fail',
+    PAGE_GUARD_MODE: 'fail',
+    // Accounts seeded by the offline storefront
+    AUTH_ROLES: 'customer',
+    TEST_CUSTOMER_EMAIL: 'customer@example.com',
+    TEST_CUSTOMER_PASSWORD: 'customer',
+  },
+};
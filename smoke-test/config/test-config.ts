@@ -0,0 +1,412 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { PerformanceBudget } from '../performance/web-vitals';
+import { PERFORMANCE_BUDGETS, PerformancePage } from './performance-budgets';
+import {
+  BrowserName,
+  EnforcementMode,
+  PROFILE_NAMES,
+  PROFILES,
+  ProfileName,
+  ScreenshotMode,
+  TraceMode,
+  USER_ROLES,
+  UserRole,
+  VideoMode,
+} from './profiles';
+
+/**
+ * Typed, validated configuration for Saleor smoke tests
+ *
+ * Resolution order (later wins):
+ * 1. Defaults of the selected profile (SMOKE_PROFILE, or "ci" when CI is set, else "local")
+ * 2. Values from the .env file (path overridable with ENV_FILE)
+ * 3. Values from the process environment
+ */
+
+export interface SmokeTestConfig {
+  profile: ProfileName;
+  ci: boolean;
+  baseURL: string;
+  /** Saleor GraphQL endpoint, e.g. http://localhost:8000/graphql/ */
+  apiURL: string;
+  /** Optional staff/app token for privileged API queries such as channels */
+  apiToken: string;
+  /** Storefront channel slugs the suite runs against; the first one is the default */
+  channels: string[];
+  defaultChannel: string;
+  /** Prefix of the per-channel cookie holding the storefront checkout ID */
+  checkoutCookiePrefix: string;
+  browser: BrowserName;
+  headless: boolean;
+  /** Serve BASE_URL from the bundled offline storefront instead of a real Saleor storefront */
+  offlineStorefront: boolean;
+  /** Selector profile name in smoke-test/selectors/profiles/, or a path to a profile JSON file */
+  selectorProfile: string;
+  /** Probe which selector alternative matched at page checkpoints */
+  selectorHealth: boolean;
+  timeouts: {
+    test: number;
+    action: number;
+    navigation: number;
+    expect: number;
+    element: number;
+  };
+  viewport: {
+    width: number;
+    height: number;
+  };
+  artifacts: {
+    screenshot: ScreenshotMode;
+    video: VideoMode;
+    trace: TraceMode;
+  };
+  /** Credentials per role; empty when the role is not configured */
+  users: Record<UserRole, UserCredentials>;
+  auth: {
+    /** Roles global setup logs in as; a logged-in customer project runs when "customer" is listed */
+    roles: UserRole[];
+    /** Directory the per-role storageState files are written to */
+    stateDir: string;
+  };
+  /** Catalog fault IDs injected into every browser context (see fault-injection/catalog.ts) */
+  injectFaults: string[];
+  /** Run every catalog fault against its target smoke tests and report a detection matrix */
+  faultMatrix: boolean;
+  catalogSweep: {
+    /** Crawl the catalog and check every product page instead of running the smoke suites */
+    enabled: boolean;
+    /** Product pages checked at the same time */
+    concurrency: number;
+  };
+  variantMatrix: {
+    /** Select every variant combination of each product and check price, availability and URL instead of running the smoke suites */
+    enabled: boolean;
+    /** Product slugs to check; empty checks every product with more than one variant */
+    products: string[];
+  };
+  linkCheck: {
+    /** Link hops followed from the homepage; links found at this depth are checked but not followed */
+    maxDepth: number;
+    /** Upper bound on internal links checked per channel */
+    maxLinks: number;
+  };
+  /** Treat degraded (soft-failed) checks as failures, e.g. for release gates */
+  strictDegraded: boolean;
+  durations: {
+    /** Per-test duration baseline, one file per profile by default */
+    baselineFile: string;
+    /** Percentage a test may exceed its baseline before it is flagged as a regression */
+    tolerance: number;
+    /** Rewrite the baseline from this run instead of comparing against it */
+    updateBaseline: boolean;
+  };
+  performance: {
+    budgetMode: EnforcementMode;
+    budgets: Record<PerformancePage, PerformanceBudget>;
+  };
+  pageGuard: {
+    /** What unexpected console errors, page errors and failed requests do to a test */
+    mode: EnforcementMode;
+    /** JSON allowlist of known, accepted problems */
+    allowlistFile: string;
+  };
+}
+
+export interface UserCredentials {
+  email: string;
+  password: string;
+}
+
+type RawEnv = Partial<Record<string, string>>;
+
+/**
+ * Raised when the environment does not describe a usable configuration
+ */
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid smoke test configuration:\n  - ${problems.join('\n  - ')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Parse a dotenv style file into a key/value map
+ */
+export function parseEnvFile(content: string): RawEnv {
+  const values: RawEnv = {};
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const separator = line.indexOf('=');
+    if (separator === -1) {
+      continue;
+    }
+
+    const key = line.slice(0, separator).replace(/^export\s+/, '').trim();
+    let value = line.slice(separator + 1).trim();
+
+    // Strip matching quotes around the value
+    if (/^(['"]).*\1$/.test(value)) {
+      value = value.slice(1, -1);
+    }
+
+    values[key] = value;
+  }
+
+  return values;
+}
+
+/**
+ * Read the .env file if it exists
+ */
+function readEnvFile(filePath: string): RawEnv {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+  return parseEnvFile(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Settings for which an explicit empty value is a choice, e.g. AUTH_ROLES= signs in no one
+ */
+const EMPTY_OVERRIDES = new Set(['AUTH_ROLES']);
+
+/**
+ * Drop undefined (and, for most settings, empty) values so they do not shadow lower-priority sources
+ */
+function definedOnly(env: RawEnv): RawEnv {
+  return Object.fromEntries(Object.entries(env).filter(
+    ([key, value]) => value !== undefined && (value !== '' || EMPTY_OVERRIDES.has(key))
+  ));
+}
+
+/**
+ * Small collector that validates individual settings and remembers every problem
+ */
+class EnvReader {
+  readonly problems: string[] = [];
+
+  constructor(private readonly env: RawEnv) {}
+
+  string(key: string): string {
+    const value = this.env[key];
+    if (value === undefined) {
+      this.problems.push(`${key} is required`);
+      return '';
+    }
+    return value;
+  }
+
+  optionalString(key: string, fallback: string): string {
+    return this.env[key] ?? fallback;
+  }
+
+  url(key: string, stripTrailingSlash = true): string {
+    const value = this.string(key);
+    if (!value) {
+      return value;
+    }
+
+    try {
+      const url = new URL(value);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        this.problems.push(`${key} must be an http(s) URL, got "${value}"`);
+      }
+      // Normalise away the trailing slash so URL joins stay predictable
+      return stripTrailingSlash ? value.replace(/\/+$/, '') : value;
+    } catch {
+      this.problems.push(`${key} is not a valid URL: "${value}"`);
+      return value;
+    }
+  }
+
+  positiveInt(key: string): number {
+    const value = this.string(key);
+    if (!value) {
+      return 0;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+      this.problems.push(`${key} must be a positive integer, got "${value}"`);
+      return 0;
+    }
+    return parsed;
+  }
+
+  boolean(key: string, fallback: boolean): boolean {
+    const value = this.env[key];
+    if (value === undefined) {
+      return fallback;
+    }
+
+    const normalised = value.toLowerCase();
+    if (['true', '1', 'yes'].includes(normalised)) {
+      return true;
+    }
+    if (['false', '0', 'no'].includes(normalised)) {
+      return false;
+    }
+
+    this.problems.push(`${key} must be a boolean, got "${value}"`);
+    return fallback;
+  }
+
+  slugList(key: string, required = true): string[] {
+    const slugs = (required ? this.string(key) : this.optionalString(key, ''))
+      .split(',').map(slug => slug.trim()).filter(Boolean);
+    if (required && slugs.length === 0) {
+      this.problems.push(`${key} must list at least one value`);
+    }
+
+    for (const slug of slugs) {
+      if (!/^[a-z0-9_-]+$/i.test(slug)) {
+        this.problems.push(`${key} contains an invalid slug: "${slug}"`);
+      }
+    }
+    return [...new Set(slugs)];
+  }
+
+  oneOfList<T extends string>(key: string, allowed: readonly T[]): T[] {
+    const values = this.slugList(key, false);
+    for (const value of values.filter(candidate => !allowed.includes(candidate as T))) {
+      this.problems.push(`${key} values must be among ${allowed.join(', ')}, got "${value}"`);
+    }
+    return values.filter((value): value is T => allowed.includes(value as T));
+  }
+
+  oneOf<T extends string>(key: string, allowed: readonly T[]): T {
+    const value = this.string(key);
+    if (value && !allowed.includes(value as T)) {
+      this.problems.push(`${key} must be one of ${allowed.join(', ')}, got "${value}"`);
+    }
+    return value as T;
+  }
+}
+
+/**
+ * Build a configuration from explicit sources
+ * Exposed separately from getConfig() so callers can load a second storefront side by side
+ */
+export function loadConfig(processEnv: RawEnv = process.env, envFilePath?: string): SmokeTestConfig {
+  const fileEnv = readEnvFile(envFilePath ?? processEnv['ENV_FILE'] ?? path.resolve(process.cwd(), '.env'));
+  const overrides = { ...definedOnly(fileEnv), ...definedOnly(processEnv) };
+
+  const ci = new EnvReader(overrides).boolean('CI', false);
+  const requestedProfile = overrides['SMOKE_PROFILE'] ?? (ci ? 'ci' : 'local');
+
+  if (!PROFILE_NAMES.includes(requestedProfile as ProfileName)) {
+    throw new ConfigError([`SMOKE_PROFILE must be one of ${PROFILE_NAMES.join(', ')}, got "${requestedProfile}"`]);
+  }
+
+  const profile = requestedProfile as ProfileName;
+  const reader = new EnvReader({ ...definedOnly(PROFILES[profile]), ...overrides });
+
+  const channels = reader.slugList('CHANNELS');
+
+  // TEST_USER_* predate per-role accounts and still name the staff account
+  const users: Record<UserRole, UserCredentials> = {
+    customer: {
+      email: reader.optionalString('TEST_CUSTOMER_EMAIL', ''),
+      password: reader.optionalString('TEST_CUSTOMER_PASSWORD', ''),
+    },
+    staff: {
+      email: reader.optionalString('TEST_STAFF_EMAIL', reader.optionalString('TEST_USER_EMAIL', 'admin@example.com')),
+      password: reader.optionalString('TEST_STAFF_PASSWORD', reader.optionalString('TEST_USER_PASSWORD', 'admin')),
+    },
+  };
+  const authRoles = reader.oneOfList<UserRole>('AUTH_ROLES', USER_ROLES);
+  for (const role of authRoles.filter(candidate => !users[candidate].email || !users[candidate].password)) {
+    const prefix = `TEST_${role.toUpperCase()}`;
+    reader.problems.push(`${prefix}_EMAIL and ${prefix}_PASSWORD are required when AUTH_ROLES includes ${role}`);
+  }
+
+  const config: SmokeTestConfig = {
+    profile,
+    ci,
+    baseURL: reader.url('BASE_URL'),
+    // Saleor's API expects the trailing slash on /graphql/
+    apiURL: reader.url('API_URL', false),
+    apiToken: reader.optionalString('API_TOKEN', ''),
+    channels,
+    defaultChannel: channels[0] ?? '',
+    checkoutCookiePrefix: reader.optionalString('CHECKOUT_COOKIE_PREFIX', 'checkoutId-'),
+    browser: reader.oneOf<BrowserName>('BROWSER', ['chromium', 'firefox', 'webkit']),
+    headless: reader.boolean('HEADLESS', true),
+    offlineStorefront: reader.boolean('OFFLINE_STOREFRONT', false),
+    selectorProfile: reader.optionalString('SELECTOR_PROFILE', 'saleor-storefront'),
+    selectorHealth: reader.boolean('SELECTOR_HEALTH', true),
+    timeouts: {
+      test: reader.positiveInt('DEFAULT_TIMEOUT'),
+      action: reader.positiveInt('ACTION_TIMEOUT'),
+      navigation: reader.positiveInt('NAVIGATION_TIMEOUT'),
+      expect: reader.positiveInt('EXPECT_TIMEOUT'),
+      element: reader.positiveInt('ELEMENT_TIMEOUT'),
+    },
+    viewport: {
+      width: reader.positiveInt('VIEWPORT_WIDTH'),
+      height: reader.positiveInt('VIEWPORT_HEIGHT'),
+    },
+    artifacts: {
+      screenshot: reader.oneOf<ScreenshotMode>('SCREENSHOT_MODE', ['off', 'on', 'only-on-failure']),
+      video: reader.oneOf<VideoMode>('VIDEO_MODE', ['off', 'on', 'retain-on-failure', 'on-first-retry']),
+      trace: reader.oneOf<TraceMode>('TRACE_MODE', ['off', 'on', 'retain-on-failure', 'on-first-retry']),
+    },
+    users,
+    auth: {
+      roles: authRoles,
+      stateDir: reader.optionalString('AUTH_STATE_DIR', '.auth'),
+    },
+    injectFaults: reader.slugList('INJECT_FAULTS', false),
+    faultMatrix: reader.boolean('FAULT_MATRIX', false),
+    catalogSweep: {
+      enabled: reader.boolean('CATALOG_SWEEP', false),
+      concurrency: reader.positiveInt('CATALOG_SWEEP_CONCURRENCY'),
+    },
+    variantMatrix: {
+      enabled: reader.boolean('VARIANT_MATRIX', false),
+      products: reader.slugList('VARIANT_MATRIX_PRODUCTS', false),
+    },
+    linkCheck: {
+      maxDepth: reader.positiveInt('LINK_CHECK_DEPTH'),
+      maxLinks: reader.positiveInt('LINK_CHECK_MAX_LINKS'),
+    },
+    strictDegraded: reader.boolean('STRICT_DEGRADED', false),
+    durations: {
+      baselineFile: reader.optionalString('DURATION_BASELINE', `smoke-test/baselines/${profile}.json`),
+      tolerance: reader.positiveInt('DURATION_TOLERANCE'),
+      updateBaseline: reader.boolean('UPDATE_DURATION_BASELINE', false),
+    },
+    performance: {
+      budgetMode: reader.oneOf<EnforcementMode>('PERF_BUDGET_MODE', ['fail', 'degraded', 'off']),
+      budgets: PERFORMANCE_BUDGETS,
+    },
+    pageGuard: {
+      mode: reader.oneOf<EnforcementMode>('PAGE_GUARD_MODE', ['fail', 'degraded', 'off']),
+      allowlistFile: reader.optionalString('PAGE_GUARD_ALLOWLIST', 'smoke-test/config/page-guard-allowlist.json'),
+    },
+  };
+
+  if (reader.problems.length > 0) {
+    throw new ConfigError(reader.problems);
+  }
+
+  return config;
+}
+
+let cachedConfig: SmokeTestConfig | undefined;
+
+/**
+ * Get the configuration for the current run (loaded once per process)
+ */
+export function getConfig(): SmokeTestConfig {
+  if (!cachedConfig) {
+    cachedConfig = loadConfig();
+  }
+  return cachedConfig;
+}
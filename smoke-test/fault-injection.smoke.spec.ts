@@ -0,0 +1,105 @@
+import { BrowserContext, test as base, mergeTests } from '@playwright/test';
+import { getConfig } from './config/test-config';
+import { test as checkoutStateTest } from './fixtures/checkout-state';
+import { test as faultInjectionTest, expect } from './fixtures/fault-injection';
+import { test as storefrontTest } from './fixtures/storefront';
+import { findFault } from './fault-injection/catalog';
+import { TEST_DATA } from './utils/test-helpers';
+
+/**
+ * Fault Injection Suite: verifies smoke checks fail when their feature is broken
+ * Replaces the fi-tc-004 shell scripts - faults are injected through Playwright routing,
+ * so no storefront source files are renamed and no confirmation prompts are needed
+ */
+
+const test = mergeTests(storefrontTest, checkoutStateTest, faultInjectionTest);
+
+/**
+ * Storefront routes each URL-routed catalog fault must intercept, and neighbours it must leave alone
+ * ('{channel}' is replaced with the default channel)
+ */
+const FAULT_ROUTES: Record<string, { matches: string[]; misses: string[] }> = {
+  'FI-HOME-500': {
+    matches: ['/{channel}', '/{channel}/'],
+    misses: ['/{channel}/cart', '/{channel}/products/monospace-tee', '/checkout', '/checkout/', getConfig().apiURL],
+  },
+  'FI-PRODUCT-404': {
+    matches: ['/{channel}/products/monospace-tee', '/{channel}/products/monospace-tee?variant=1'],
+    misses: ['/{channel}', '/{channel}/cart'],
+  },
+  'FI-CART-404': {
+    matches: ['/{channel}/cart', '/{channel}/cart/?_rsc=1'],
+    misses: ['/{channel}', '/{channel}/checkout'],
+  },
+  'FI-CART-500': {
+    matches: ['/{channel}/cart'],
+    misses: ['/{channel}', '/{channel}/products/monospace-tee'],
+  },
+  'FI-CHECKOUT-500': {
+    matches: ['/checkout?checkout=abc'],
+    misses: ['/{channel}/cart', '/{channel}'],
+  },
+  'FI-SLOW-PRODUCT': {
+    matches: ['/{channel}/products/monospace-tee'],
+    misses: ['/{channel}', '/{channel}/cart'],
+  },
+};
+
+/**
+ * URL predicates a fault registers, captured without a browser
+ */
+async function routePredicates(faultId: string): Promise<Array<(url: URL) => boolean>> {
+  const predicates: Array<(url: URL) => boolean> = [];
+  const context = {
+    route: async (url: (url: URL) => boolean) => { predicates.push(url); },
+    addInitScript: async () => {},
+  } as unknown as BrowserContext;
+
+  await findFault(faultId).inject(context, () => {});
+  return predicates;
+}
+
+base.describe('Fault Injection - Catalog faults target their routes', () => {
+  for (const [faultId, routes] of Object.entries(FAULT_ROUTES)) {
+    base(`${faultId} intercepts its storefront route`, async () => {
+      const { baseURL, defaultChannel } = getConfig();
+      const predicates = await routePredicates(faultId);
+      const intercepts = (path: string): boolean => {
+        const url = new URL(path.replace('{channel}', defaultChannel), baseURL);
+        return predicates.some(predicate => predicate(url));
+      };
+
+      expect(predicates.length, `${faultId} registers a route`).toBeGreaterThan(0);
+      for (const path of routes.matches) {
+        expect(intercepts(path), `${faultId} should intercept ${path}`).toBe(true);
+      }
+      for (const path of routes.misses) {
+        expect(intercepts(path), `${faultId} should not intercept ${path}`).toBe(false);
+      }
+    });
+  }
+});
+
+test.describe('Fault Injection - Smoke checks detect broken features', () => {
+  test.describe('FI-TC-004: Cart page returns 404', () => {
+    test.use({ faults: [findFault('FI-CART-404')] });
+
+    test('TC-004 cart checks should fail', async ({ cartPage, seedCheckout }) => {
+      const { productNames } = await seedCheckout({
+        lines: [{ productSlug: TEST_DATA.SAMPLE_PRODUCTS.MONOSPACE_TEE_SLUG }],
+      });
+
+      await cartPage.goto();
+      await expect(cartPage.verifyItemInCart(productNames[0] as string)).rejects.toThrow();
+    });
+  });
+
+  test.describe('FI-EMPTY-PRODUCTS: Product list is empty', () => {
+    test.use({ faults: [findFault('FI-EMPTY-PRODUCTS')] });
+
+    test('TC-001 product list checks should fail', async ({ homePage }) => {
+      await homePage.goto();
+      await expect(homePage.verifyProductListDisplayed()).rejects.toThrow();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import {
+  Fault,
+  brokenImages,
+  emptyProductList,
+  graphqlError,
+  httpStatus,
+  named,
+  slowResponse,
+} from './faults';
+
+/**
+ * Catalog of named faults that can be injected by ID (see INJECT_FAULTS)
+ * Targets list the smoke tests that should fail while the fault is active;
+ * the fault matrix (FAULT_MATRIX=true) runs each fault against its targets
+ */
+export const FAULT_CATALOG: Fault[] = [
+  named('FI-HOME-500', 'Channel homepage responds with HTTP 500', httpStatus('/', 500),
+    ['TC-001', 'TC-002', 'TC-003', 'TC-006', 'TC-007']),
+  named('FI-PRODUCT-404', 'Product detail pages respond with HTTP 404', httpStatus('/products/', 404),
+    ['TC-002', 'TC-003', 'TC-006']),
+  named('FI-CART-404', 'Cart page responds with HTTP 404 (formerly fi-tc-004-inject-fault.sh)', httpStatus('/cart', 404),
+    ['TC-004', 'TC-006']),
+  named('FI-CART-500', 'Cart page responds with HTTP 500', httpStatus('/cart', 500),
+    ['TC-004', 'TC-006']),
+  named('FI-CHECKOUT-500', 'Checkout page responds with HTTP 500', httpStatus('/checkout', 500, { channelScoped: false }),
+    ['TC-005', 'TC-006']),
+  named('FI-GRAPHQL-ERROR', 'Every browser GraphQL request returns errors', graphqlError(),
+    ['TC-003', 'TC-005']),
+  named('FI-SLOW-PRODUCT', 'Product detail pages respond after 8 seconds', slowResponse('/products/', 8000),
+    ['TC-002', 'TC-003']),
+  named('FI-EMPTY-PRODUCTS', 'Product listings are empty', emptyProductList(),
+    ['TC-001', 'TC-002', 'TC-006']),
+  named('FI-BROKEN-IMAGES', 'Images fail to load', brokenImages(),
+    ['TC-001', 'TC-002']),
+];
+
+/**
+ * Look up a catalog fault by ID
+ */
+export function findFault(id: string): Fault {
+  const fault = FAULT_CATALOG.find(candidate => candidate.id === id);
+  if (!fault) {
+    throw new Error(`Unknown fault "${id}". Known faults: ${FAULT_CATALOG.map(candidate => candidate.id).join(', ')}`);
+  }
+  return fault;
+}
@@ -0,0 +1,220 @@
+import { BrowserContext, Request, Route } from '@playwright/test';
+import { getConfig } from '../config/test-config';
+import { getSelectorRegistry } from '../selectors/registry';
+
+/**
+ * In-browser fault injection built on Playwright request routing
+ * Faults are applied to a BrowserContext, so the storefront source is never modified
+ */
+
+export interface Fault {
+  /** Stable identifier, e.g. 'FI-CART-404' */
+  id: string;
+  description: string;
+  /** Smoke test IDs (e.g. 'TC-004') expected to fail while this fault is active */
+  targets?: string[];
+  /** Apply the fault; `intercepted` is called every time it actually breaks a request or page */
+  inject(context: BrowserContext, intercepted: () => void): Promise<void>;
+}
+
+/** Attachment holding how often each injected fault intercepted something during a test */
+export const FAULT_INTERCEPTIONS_ATTACHMENT = 'fault-interceptions';
+
+export interface RouteMatchOptions {
+  /** Whether the path lives under /[channel]/ (default: true) */
+  channelScoped?: boolean;
+}
+
+/**
+ * Build a URL predicate for a storefront path, in any configured channel
+ * e.g. '/cart' matches '/default-channel/cart' and '/channel-pln/cart?_rsc=1',
+ * '/products/' matches every path below /products and '/' matches the channel root only.
+ * Channel-scoped paths need a configured channel as their first segment, so '/' leaves
+ * channel-less routes such as '/checkout' and '/graphql/' alone.
+ */
+export function storefrontPath(path: string, options: RouteMatchOptions = {}): (url: URL) => boolean {
+  const { baseURL, channels } = getConfig();
+  const origin = new URL(baseURL).origin;
+  const normalised = `/${path.replace(/^\/+/, '').replace(/\/+$/, '')}`;
+  const matchesPrefix = path.endsWith('/') && normalised !== '/';
+
+  return url => {
+    if (url.origin !== origin) {
+      return false;
+    }
+
+    let pathname = url.pathname;
+    if (options.channelScoped !== false) {
+      const [, channel = '', ...rest] = url.pathname.split('/');
+      if (!channels.includes(decodeURIComponent(channel))) {
+        return false;
+      }
+      pathname = `/${rest.join('/')}`;
+    }
+    return matchesPrefix ? pathname.startsWith(`${normalised}/`) : pathname === normalised || pathname === `${normalised}/`;
+  };
+}
+
+/**
+ * Predicate matching requests sent to the Saleor GraphQL API, optionally for one operation
+ */
+function isGraphQLRequest(request: Request, operationName?: string): boolean {
+  const { apiURL } = getConfig();
+  if (request.method() !== 'POST' || !request.url().startsWith(apiURL.replace(/\/+$/, ''))) {
+    return false;
+  }
+  if (!operationName) {
+    return true;
+  }
+
+  try {
+    const body = request.postDataJSON() as { operationName?: string } | null;
+    return body?.operationName === operationName;
+  } catch {
+    return false;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"]/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Respond to a storefront route with an HTTP error status
+ */
+export function httpStatus(path: string, status: number, options: RouteMatchOptions = {}): Fault {
+  return {
+    id: `FI-HTTP-${status}${path.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/-$/, '')}`,
+    description: `${path} responds with HTTP ${status}`,
+    async inject(context, intercepted) {
+      await context.route(storefrontPath(path, options), async route => {
+        intercepted();
+        await route.fulfill({
+          status,
+          contentType: 'text/html',
+          body: `<!DOCTYPE html><html><body><h1>${status}</h1><p>${escapeHtml(`Injected fault: ${path}`)}</p></body></html>`,
+        });
+      });
+    },
+  };
+}
+
+/**
+ * Answer Saleor GraphQL requests with a top-level `errors` payload
+ */
+export function graphqlError(operationName?: string, message = 'Injected GraphQL error'): Fault {
+  return {
+    id: `FI-GRAPHQL-ERROR${operationName ? `-${operationName.toUpperCase()}` : ''}`,
+    description: `GraphQL ${operationName ?? 'operations'} respond with errors`,
+    async inject(context, intercepted) {
+      await context.route(() => true, async route => {
+        if (!isGraphQLRequest(route.request(), operationName)) {
+          await route.fallback();
+          return;
+        }
+        intercepted();
+        await route.fulfill({
+          status: 200,
+          contentType: 'application/json',
+          body: JSON.stringify({ data: null, errors: [{ message }] }),
+        });
+      });
+    },
+  };
+}
+
+/**
+ * Delay matching storefront responses
+ */
+export function slowResponse(path: string, delayMs: number, options: RouteMatchOptions = {}): Fault {
+  return {
+    id: `FI-SLOW${path.toUpperCase().replace(/[^A-Z0-9]+/g, '-').replace(/-$/, '')}`,
+    description: `${path} responds after ${delayMs}ms`,
+    async inject(context, intercepted) {
+      await context.route(storefrontPath(path, options), async route => {
+        intercepted();
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+        await route.fallback();
+      });
+    },
+  };
+}
+
+/**
+ * Hide every product: GraphQL product listings come back empty and server-rendered
+ * product cards are removed from the DOM as soon as they appear
+ */
+export function emptyProductList(): Fault {
+  return {
+    id: 'FI-EMPTY-PRODUCTS',
+    description: 'Product listings are empty',
+    async inject(context, intercepted) {
+      await context.route(() => true, async (route: Route) => {
+        if (!isGraphQLRequest(route.request(), 'Products')) {
+          await route.fallback();
+          return;
+        }
+        intercepted();
+        const response = await route.fetch();
+        const body = await response.json() as { data?: { products?: { edges: unknown[] } | null } };
+        if (body.data?.products) {
+          body.data.products.edges = [];
+        }
+        await route.fulfill({ response, json: body });
+      });
+
+      await context.exposeFunction('__productCardsStripped', intercepted);
+      await context.addInitScript(selector => {
+        const strip = (): void => {
+          const cards = document.querySelectorAll(selector);
+          if (cards.length > 0) {
+            cards.forEach(element => element.remove());
+            void (window as unknown as { __productCardsStripped?: () => Promise<void> }).__productCardsStripped?.();
+          }
+        };
+        new MutationObserver(strip).observe(document, { childList: true, subtree: true });
+        document.addEventListener('DOMContentLoaded', strip);
+      }, getSelectorRegistry().css('home.productCard'));
+    },
+  };
+}
+
+/**
+ * Make every image request fail with 404
+ */
+export function brokenImages(): Fault {
+  return {
+    id: 'FI-BROKEN-IMAGES',
+    description: 'Images fail to load',
+    async inject(context, intercepted) {
+      await context.route(() => true, async route => {
+        if (route.request().resourceType() !== 'image') {
+          await route.fallback();
+          return;
+        }
+        intercepted();
+        await route.fulfill({ status: 404, body: '' });
+      });
+    },
+  };
+}
+
+/**
+ * Give a fault a stable catalog ID, description and the smoke tests meant to catch it
+ */
+export function named(id: string, description: string, fault: Fault, targets: string[] = []): Fault {
+  return { ...fault, id, description, targets };
+}
+
+/**
+ * Apply faults to a browser context; must run before the first navigation
+ * Returns live interception counts per fault ID
+ */
+export async function injectFaults(context: BrowserContext, faults: Fault[]): Promise<Map<string, number>> {
+  const interceptions = new Map<string, number>();
+  for (const fault of faults) {
+    interceptions.set(fault.id, 0);
+    await fault.inject(context, () => interceptions.set(fault.id, (interceptions.get(fault.id) ?? 0) + 1));
+  }
+  return interceptions;
+}
@@ -0,0 +1,92 @@
+import { test as base } from '@playwright/test';
+import { SaleorApiClient } from '../api/SaleorApiClient';
+import { Checkout, ProductVariant } from '../api/types';
+import { getConfig } from '../config/test-config';
+
+/**
+ * Fixtures that seed cart/checkout state through the Saleor API
+ * and hand it to the browser through the storefront's checkout cookie
+ */
+
+export interface SeedLine {
+  productSlug: string;
+  /** Specific variant to add; defaults to the first variant in stock */
+  variantId?: string;
+  quantity?: number;
+}
+
+export interface SeedCheckoutOptions {
+  /** Channel to create the checkout in; defaults to the configured default channel */
+  channel?: string;
+  email?: string;
+  lines: SeedLine[];
+}
+
+export interface SeededCheckout {
+  checkout: Checkout;
+  channel: string;
+  /** Product names in line order, as the storefront should display them */
+  productNames: string[];
+}
+
+export interface CheckoutStateFixtures {
+  saleorApi: SaleorApiClient;
+  seedCheckout: (options: SeedCheckoutOptions) => Promise<SeededCheckout>;
+}
+
+/**
+ * Name of the cookie the Saleor storefront reads the checkout ID from
+ */
+export function checkoutCookieName(channel: string): string {
+  return `${getConfig().checkoutCookiePrefix}${channel}`;
+}
+
+function firstInStock(variants: ProductVariant[]): ProductVariant | undefined {
+  return variants.find(variant => (variant.quantityAvailable ?? 0) > 0) ?? variants[0];
+}
+
+export const test = base.extend<CheckoutStateFixtures>({
+  saleorApi: async ({ request }, use) => {
+    await use(new SaleorApiClient(request, { token: getConfig().apiToken }));
+  },
+
+  seedCheckout: async ({ saleorApi, context }, use) => {
+    const config = getConfig();
+
+    await use(async ({ channel = config.defaultChannel, email, lines }) => {
+      const productNames: string[] = [];
+      const checkoutLines = [];
+
+      for (const line of lines) {
+        const product = await saleorApi.product(line.productSlug, channel);
+        if (!product) {
+          throw new Error(`Cannot seed checkout: product "${line.productSlug}" is not visible in channel "${channel}"`);
+        }
+
+        const variantId = line.variantId ?? firstInStock(product.variants)?.id;
+        if (!variantId) {
+          throw new Error(`Cannot seed checkout: product "${line.productSlug}" has no variants`);
+        }
+
+        productNames.push(product.name);
+        checkoutLines.push({ variantId, quantity: line.quantity ?? 1 });
+      }
+
+      const checkout = await saleorApi.checkoutCreate({
+        channel,
+        lines: checkoutLines,
+        ...(email ? { email } : {}),
+      });
+
+      await context.addCookies([{
+        name: checkoutCookieName(channel),
+        value: checkout.id,
+        url: config.baseURL,
+      }]);
+
+      return { checkout, channel, productNames };
+    });
+  },
+});
+
+export { expect } from '@playwright/test';
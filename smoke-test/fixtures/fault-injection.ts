@@ -0,0 +1,47 @@
+import { test as base } from '@playwright/test';
+import { getConfig } from '../config/test-config';
+import { findFault } from '../fault-injection/catalog';
+import { FAULT_INTERCEPTIONS_ATTACHMENT, Fault, injectFaults } from '../fault-injection/faults';
+
+/**
+ * Fixtures that apply faults to the browser context before a test runs
+ *
+ * Faults come from three places:
+ * - test.use({ faults: [...] }) for tests written against a specific fault
+ * - the faultIds project option, used by the fault matrix projects
+ * - INJECT_FAULTS=FI-CART-404,... to run any existing spec under catalog faults
+ *
+ * How often each fault intercepted something is attached to the test (see the fault matrix reporter)
+ */
+
+export interface FaultInjectionFixtures {
+  faults: Fault[];
+  /** Catalog fault IDs; serialisable, so it can be set per project */
+  faultIds: string[];
+  injectedFaults: Fault[];
+}
+
+export const test = base.extend<FaultInjectionFixtures>({
+  faults: [[], { option: true }],
+
+  faultIds: [[], { option: true }],
+
+  injectedFaults: [async ({ context, faults, faultIds }, use, testInfo) => {
+    const applied = [...faults, ...[...faultIds, ...getConfig().injectFaults].map(findFault)];
+    const interceptions = await injectFaults(context, applied);
+
+    for (const fault of applied) {
+      testInfo.annotations.push({ type: 'fault', description: `${fault.id}: ${fault.description}` });
+    }
+    await use(applied);
+
+    if (applied.length > 0) {
+      await testInfo.attach(FAULT_INTERCEPTIONS_ATTACHMENT, {
+        body: JSON.stringify(Object.fromEntries(interceptions)),
+        contentType: 'application/json',
+      });
+    }
+  }, { auto: true }],
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,45 @@
+import { test as base } from '@playwright/test';
+import { getConfig } from '../config/test-config';
+import { PageGuard, formatGuardEvent, loadAllowlist } from '../page-guard/page-guard';
+import { markDegraded } from '../utils/degraded';
+
+/**
+ * Auto fixture guarding every test against console errors, page errors and failed requests
+ * The event log is attached to the report; unexpected events fail the test or mark it
+ * degraded depending on PAGE_GUARD_MODE. Known problems go in the allowlist file.
+ */
+
+export interface PageGuardFixtures {
+  pageGuard: PageGuard;
+}
+
+export const test = base.extend<PageGuardFixtures>({
+  pageGuard: [async ({ context }, use, testInfo) => {
+    const config = getConfig();
+    const guard = new PageGuard(loadAllowlist(config.pageGuard.allowlistFile), config.apiURL);
+    if (config.pageGuard.mode !== 'off') {
+      guard.attach(context);
+    }
+
+    await use(guard);
+
+    await guard.settle();
+    if (guard.events.length > 0) {
+      await testInfo.attach('page-guard', {
+        body: JSON.stringify(guard.events, null, 2),
+        contentType: 'application/json',
+      });
+    }
+
+    const unexpected = guard.unexpected().map(formatGuardEvent);
+    if (unexpected.length === 0) {
+      return;
+    }
+    if (config.pageGuard.mode === 'fail') {
+      throw new Error(`Unexpected browser errors:\n  ${unexpected.join('\n  ')}`);
+    }
+    unexpected.forEach(message => markDegraded(`Page guard: ${message}`));
+  }, { auto: true }],
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,41 @@
+import { test as base, expect } from '@playwright/test';
+import { getConfig } from '../config/test-config';
+import { PerformancePage } from '../config/performance-budgets';
+import { WebVitals, checkBudget, collectWebVitals, formatViolation } from '../performance/web-vitals';
+import { markDegraded } from '../utils/degraded';
+
+/**
+ * Fixture that measures Web Vitals for the current page and checks them against its budget
+ * Metrics are attached to the test report; violations fail the test or mark it degraded
+ * depending on PERF_BUDGET_MODE.
+ */
+
+export interface PerformanceFixtures {
+  measurePerformance: (pageName: PerformancePage) => Promise<WebVitals>;
+}
+
+export const test = base.extend<PerformanceFixtures>({
+  measurePerformance: async ({ page }, use, testInfo) => {
+    const { budgetMode, budgets } = getConfig().performance;
+
+    await use(async pageName => {
+      const vitals = await collectWebVitals(page);
+      const violations = checkBudget(vitals, budgets[pageName]);
+
+      await testInfo.attach(`web-vitals-${pageName}`, {
+        body: JSON.stringify({ page: pageName, url: page.url(), vitals, budget: budgets[pageName], violations }, null, 2),
+        contentType: 'application/json',
+      });
+
+      const messages = violations.map(violation => formatViolation(pageName, violation));
+      if (budgetMode === 'fail') {
+        expect.soft(messages, `Performance budget for ${pageName}`).toEqual([]);
+      } else if (budgetMode === 'degraded') {
+        messages.forEach(markDegraded);
+      }
+      return vitals;
+    });
+  },
+});
+
+export { expect } from '@playwright/test';
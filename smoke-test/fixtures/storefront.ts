@@ -0,0 +1,94 @@
+import { test as base } from '@playwright/test';
+import { getConfig } from '../config/test-config';
+import { HomePage } from '../page-objects/HomePage';
+import { ProductPage } from '../page-objects/ProductPage';
+import { CartPage } from '../page-objects/CartPage';
+import { CheckoutPage } from '../page-objects/CheckoutPage';
+import { LoginPage } from '../page-objects/LoginPage';
+import { AccountPage } from '../page-objects/AccountPage';
+import { OrderHistoryPage } from '../page-objects/OrderHistoryPage';
+import { AddressBookPage } from '../page-objects/AddressBookPage';
+import { SearchPage } from '../page-objects/SearchPage';
+import { CategoryPage } from '../page-objects/CategoryPage';
+import { CollectionPage } from '../page-objects/CollectionPage';
+import { Storefront } from '../page-objects/Storefront';
+
+/**
+ * Fixtures providing page objects and the Storefront facade
+ * Every test gets its own instances bound to its own page, so tests stay parallel-safe.
+ * Select the channel with test.use({ storefrontChannel: 'channel-pln' }).
+ */
+
+export interface StorefrontFixtures {
+  /**
+   * Storefront channel the page objects are bound to; defaults to the first entry in CHANNELS
+   * (named apart from Playwright's `channel` option, which selects the browser build)
+   */
+  storefrontChannel: string;
+  homePage: HomePage;
+  productPage: ProductPage;
+  cartPage: CartPage;
+  checkoutPage: CheckoutPage;
+  loginPage: LoginPage;
+  accountPage: AccountPage;
+  orderHistoryPage: OrderHistoryPage;
+  addressBookPage: AddressBookPage;
+  searchPage: SearchPage;
+  categoryPage: CategoryPage;
+  collectionPage: CollectionPage;
+  storefront: Storefront;
+}
+
+export const test = base.extend<StorefrontFixtures>({
+  storefrontChannel: [getConfig().defaultChannel, { option: true }],
+
+  homePage: async ({ page, storefrontChannel }, use) => {
+    await use(new HomePage(page, storefrontChannel));
+  },
+
+  productPage: async ({ page, storefrontChannel }, use) => {
+    await use(new ProductPage(page, storefrontChannel));
+  },
+
+  cartPage: async ({ page, storefrontChannel }, use) => {
+    await use(new CartPage(page, storefrontChannel));
+  },
+
+  checkoutPage: async ({ page, storefrontChannel }, use) => {
+    await use(new CheckoutPage(page, storefrontChannel));
+  },
+
+  loginPage: async ({ page, storefrontChannel }, use) => {
+    await use(new LoginPage(page, storefrontChannel));
+  },
+
+  accountPage: async ({ page, storefrontChannel }, use) => {
+    await use(new AccountPage(page, storefrontChannel));
+  },
+
+  orderHistoryPage: async ({ page, storefrontChannel }, use) => {
+    await use(new OrderHistoryPage(page, storefrontChannel));
+  },
+
+  addressBookPage: async ({ page, storefrontChannel }, use) => {
+    await use(new AddressBookPage(page, storefrontChannel));
+  },
+
+  searchPage: async ({ page, storefrontChannel }, use) => {
+    await use(new SearchPage(page, storefrontChannel));
+  },
+
+  categoryPage: async ({ page, storefrontChannel }, use) => {
+    await use(new CategoryPage(page, storefrontChannel));
+  },
+
+  collectionPage: async ({ page, storefrontChannel }, use) => {
+    await use(new CollectionPage(page, storefrontChannel));
+  },
+
+  storefront: async ({ homePage, productPage, cartPage, checkoutPage }, use) => {
+    await use(new Storefront(homePage, productPage, cartPage, checkoutPage));
+  },
+});
+
+export { expect } from '@playwright/test';
@@ -0,0 +1,21 @@
+import { FullConfig } from '@playwright/test';
+import { getConfig } from './config/test-config';
+import { saveStorageStates } from './auth/storage-state';
+import startOfflineStorefront from './offline-storefront/global-setup';
+
+/**
+ * Playwright global setup
+ * Boots the offline storefront when OFFLINE_STOREFRONT is set, then signs in once per AUTH_ROLES role.
+ * The returned function is used by Playwright as the matching teardown
+ */
+export default async function globalSetup(fullConfig: FullConfig): Promise<() => Promise<void>> {
+  const teardown = getConfig().offlineStorefront ? await startOfflineStorefront(fullConfig) : async () => {};
+
+  try {
+    await saveStorageStates(fullConfig);
+  } catch (error) {
+    await teardown();
+    throw error;
+  }
+  return teardown;
+}
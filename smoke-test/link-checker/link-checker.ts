@@ -0,0 +1,163 @@
+import { Page, Locator, Response, test } from '@playwright/test';
+import { BasePage } from '../page-objects/BasePage';
+import { SmokeTestConfig } from '../config/test-config';
+import { TestHelpers } from '../utils/test-helpers';
+
+/**
+ * Internal link checker
+ * Crawls the storefront breadth-first from the channel homepage up to LINK_CHECK_DEPTH hops. Every link
+ * on BASE_URL's origin is checked, but only pages under the channel's path are searched for more links,
+ * so channel-less pages such as /checkout or /pages/... are covered without crawling other channels.
+ * Records each link's HTTP status, redirects and whether the storefront rendered its not-found page. Results are attached to the test and aggregated by the broken links reporter.
+ */
+
+export const LINK_CHECK_ATTACHMENT = 'link-check';
+
+export interface LinkCheckResult {
+  url: string;
+  /** Hops from the homepage */
+  depth: number;
+  /** Pages the link was found on; empty for the homepage */
+  foundOn: string[];
+  /** Status of the final response; null when navigation failed */
+  status: number | null;
+  /** URLs redirected through before the final response */
+  redirects: string[];
+  finalUrl: string;
+  /** The page answered 2xx/3xx but rendered the storefront's 404 page */
+  clientSideNotFound: boolean;
+  error?: string;
+}
+
+export interface LinkCheckOptions {
+  maxDepth?: number;
+  maxLinks?: number;
+}
+
+export class LinkChecker extends BasePage {
+  private readonly notFoundMarker: Locator;
+  private readonly helpers: TestHelpers;
+  private readonly maxDepth: number;
+  private readonly maxLinks: number;
+
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig, options: LinkCheckOptions = {}) {
+    super(page, channel, config);
+
+    this.notFoundMarker = this.locate('page.notFound');
+    this.helpers = new TestHelpers(page);
+    this.maxDepth = options.maxDepth ?? this.config.linkCheck.maxDepth;
+    this.maxLinks = options.maxLinks ?? this.config.linkCheck.maxLinks;
+  }
+
+  /**
+   * Navigate to the page the crawl starts from
+   */
+  async goto(): Promise<void> {
+    await this.gotoPath('/');
+  }
+
+  /**
+   * Crawl from the channel homepage and check every internal link found, up to maxLinks
+   */
+  async crawl(): Promise<LinkCheckResult[]> {
+    const start = new URL(this.buildUrl('/'), this.config.baseURL).toString();
+    const results = new Map<string, LinkCheckResult>();
+    const queue: Array<{ url: string; depth: number; foundOn?: string }> = [{ url: start, depth: 0 }];
+
+    for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+      const known = results.get(next.url);
+      if (known) {
+        if (next.foundOn && !known.foundOn.includes(next.foundOn)) {
+          known.foundOn.push(next.foundOn);
+        }
+        continue;
+      }
+      if (results.size >= this.maxLinks) {
+        break;
+      }
+
+      const result = await this.check(next.url, next.depth, next.foundOn);
+      results.set(next.url, result);
+
+      if (next.depth < this.maxDepth && !isBroken(result) && this.isInChannel(result.finalUrl)) {
+        // Filtered against the configured storefront, not the page, which may have redirected elsewhere
+        for (const link of (await this.helpers.getSameOriginLinks()).filter(candidate => this.isOnStorefront(candidate))) {
+          queue.push({ url: link, depth: next.depth + 1, foundOn: next.url });
+        }
+      }
+    }
+
+    return [...results.values()];
+  }
+
+  /**
+   * Whether a link points at BASE_URL's origin
+   */
+  private isOnStorefront(link: string): boolean {
+    return new URL(link).origin === new URL(this.config.baseURL).origin;
+  }
+
+  /**
+   * Whether a link points at BASE_URL's origin, under this channel's path
+   */
+  private isInChannel(link: string): boolean {
+    const { pathname } = new URL(link);
+    const channelRoot = this.buildUrl('/');
+    return this.isOnStorefront(link) && (pathname === channelRoot || pathname.startsWith(`${channelRoot}/`));
+  }
+
+  /**
+   * Open one link and record how it resolved
+   */
+  private async check(url: string, depth: number, foundOn?: string): Promise<LinkCheckResult> {
+    const result: LinkCheckResult = {
+      url,
+      depth,
+      foundOn: foundOn ? [foundOn] : [],
+      status: null,
+      redirects: [],
+      finalUrl: url,
+      clientSideNotFound: false,
+    };
+
+    let response: Response | null;
+    try {
+      response = await this.page.goto(url);
+      await this.waitForPageLoad();
+    } catch (error) {
+      result.error = error instanceof Error ? error.message.split('\n')[0] ?? error.message : String(error);
+      return result;
+    }
+
+    result.finalUrl = this.page.url();
+    result.status = response?.status() ?? null;
+    for (let request = response?.request().redirectedFrom(); request; request = request.redirectedFrom()) {
+      result.redirects.unshift(request.url());
+    }
+    // Counted rather than awaited: a healthy page should not cost the element timeout
+    result.clientSideNotFound = (result.status === null || result.status < 400) && await this.notFoundMarker.count() > 0;
+    return result;
+  }
+}
+
+/**
+ * A link is broken when it failed to load, answered 4xx/5xx or rendered the not-found page
+ */
+export function isBroken(result: LinkCheckResult): boolean {
+  return result.status === null || result.status >= 400 || result.clientSideNotFound;
+}
+
+/**
+ * One line per broken link, for assertion messages
+ */
+export function describeBrokenLink(result: LinkCheckResult): string {
+  const outcome = result.error ?? (result.clientSideNotFound ? `not-found page (HTTP ${result.status})` : `HTTP ${result.status}`);
+  return `${result.url}: ${outcome}${result.foundOn.length > 0 ? ` - linked from ${result.foundOn.join(', ')}` : ''}`;
+}
+
+/**
+ * Attach link check results to the running test
+ */
+export async function recordLinkCheckResults(results: LinkCheckResult[]): Promise<void> {
+  await test.info().attach(LINK_CHECK_ATTACHMENT, { body: JSON.stringify(results), contentType: 'application/json' });
+}
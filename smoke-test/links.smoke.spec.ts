@@ -0,0 +1,39 @@
+import { mergeTests } from '@playwright/test';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as storefrontTest, expect } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+import { LinkChecker, describeBrokenLink, isBroken, recordLinkCheckResults } from './link-checker/link-checker';
+
+const test = mergeTests(storefrontTest, faultInjectionTest);
+
+/**
+ * Smoke Test Suite: Internal Links
+ *
+ * Crawls the storefront from the channel homepage (LINK_CHECK_DEPTH hops, at most LINK_CHECK_MAX_LINKS links)
+ * and fails on any internal link that answers 4xx/5xx or renders the not-found page, such as dead
+ * footer links or renamed category slugs. Broken links are listed in test-results/broken-links.md.
+ * Runs once per configured channel (CHANNELS)
+ */
+
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - Internal Links`, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('LC-001: Internal links should not lead to error or not-found pages', async ({ page, storefrontChannel }) => {
+      // Each checked link may take up to a navigation timeout
+      const { timeouts, linkCheck } = getConfig();
+      test.setTimeout(timeouts.test + linkCheck.maxLinks * timeouts.navigation);
+
+      // Given: The storefront, starting from the channel homepage
+      const linkChecker = new LinkChecker(page, storefrontChannel);
+
+      // When: Every internal link within reach is followed
+      const results = await linkChecker.crawl();
+      await recordLinkCheckResults(results);
+
+      // Then: No link is broken
+      expect(results.length, 'the crawl should check the homepage and its links').toBeGreaterThan(1);
+      expect(results.filter(isBroken).map(describeBrokenLink)).toEqual([]);
+    });
+  });
+}
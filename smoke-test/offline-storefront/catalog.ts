@@ -0,0 +1,314 @@
+/**
+ * Fixture catalog served by the offline storefront
+ * Mirrors the shape of Saleor's demo data closely enough for the smoke suite
+ */
+
+export interface FixtureChannel {
+  slug: string;
+  name: string;
+  currency: string;
+  /** Locale used to format prices, e.g. 'pl-PL' renders "80,00 zł" */
+  locale: string;
+  /** Price multiplier relative to the USD base price */
+  priceMultiplier: number;
+}
+
+export interface FixtureVariant {
+  id: string;
+  name: string;
+  attributes: Record<string, string>;
+  /** Base price in USD */
+  price: number;
+  quantityAvailable: number;
+}
+
+export interface FixtureProduct {
+  id: string;
+  slug: string;
+  name: string;
+  description: string;
+  category: string;
+  /** Served by the offline storefront as an SVG placeholder */
+  thumbnail: string;
+  imageColor: string;
+  variants: FixtureVariant[];
+}
+
+/**
+ * A category or collection: a named listing of products
+ */
+export interface FixtureListing {
+  slug: string;
+  name: string;
+}
+
+export interface FixtureCollection extends FixtureListing {
+  productIds: string[];
+}
+
+export interface FixtureDeliveryMethod {
+  id: string;
+  name: string;
+  /** Base price in USD */
+  price: number;
+}
+
+export interface Address {
+  firstName: string;
+  lastName: string;
+  streetAddress1: string;
+  city: string;
+  postalCode: string;
+  /** ISO 3166-1 alpha-2 country code */
+  country: string;
+  countryArea: string;
+  phone: string;
+}
+
+export interface FixtureUser {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  isStaff: boolean;
+  /** Saved addresses; the first one is the default shipping address */
+  addresses: Address[];
+}
+
+export interface FixtureCountry {
+  code: string;
+  name: string;
+  /** Country areas (states) offered in a dropdown; addresses must use one of them when set */
+  countryAreas: Array<{ code: string; name: string }>;
+  postalCodePattern: RegExp;
+}
+
+export const FIXTURE_CHANNELS: FixtureChannel[] = [
+  { slug: 'default-channel', name: 'Default Channel', currency: 'USD', locale: 'en-US', priceMultiplier: 1 },
+  { slug: 'channel-pln', name: 'Channel-PLN', currency: 'PLN', locale: 'pl-PL', priceMultiplier: 4 },
+];
+
+export const FIXTURE_DELIVERY_METHODS: FixtureDeliveryMethod[] = [
+  { id: 'standard', name: 'Standard', price: 5 },
+  { id: 'express', name: 'Express', price: 15 },
+];
+
+export const FIXTURE_COUNTRIES: FixtureCountry[] = [
+  {
+    code: 'US',
+    name: 'United States of America',
+    countryAreas: [
+      { code: 'CA', name: 'California' },
+      { code: 'IN', name: 'Indiana' },
+      { code: 'NY', name: 'New York' },
+      { code: 'TX', name: 'Texas' },
+      { code: 'WA', name: 'Washington' },
+    ],
+    postalCodePattern: /^\d{5}(-\d{4})?$/,
+  },
+  { code: 'DE', name: 'Germany', countryAreas: [], postalCodePattern: /^\d{5}$/ },
+  { code: 'PL', name: 'Poland', countryAreas: [], postalCodePattern: /^\d{2}-\d{3}$/ },
+  { code: 'GB', name: 'United Kingdom', countryAreas: [], postalCodePattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i },
+];
+
+export const FIXTURE_USERS: FixtureUser[] = [
+  {
+    email: 'customer@example.com',
+    password: 'customer',
+    firstName: 'Casey',
+    lastName: 'Customer',
+    isStaff: false,
+    addresses: [
+      {
+        firstName: 'Casey',
+        lastName: 'Customer',
+        streetAddress1: '1470 Pinewood Avenue',
+        city: 'Michigan City',
+        postalCode: '46360',
+        country: 'US',
+        countryArea: 'IN',
+        phone: '+12025550123',
+      },
+      {
+        firstName: 'Casey',
+        lastName: 'Customer',
+        streetAddress1: 'Friedrichstraße 123',
+        city: 'Berlin',
+        postalCode: '10117',
+        country: 'DE',
+        countryArea: '',
+        phone: '+4930901820',
+      },
+    ],
+  },
+  { email: 'admin@example.com', password: 'admin', firstName: 'Admin', lastName: 'Staff', isStaff: true, addresses: [] },
+];
+
+/** Saleor's built-in dummy payment gateway; always approves */
+export const DUMMY_GATEWAY = { id: 'mirumee.payments.dummy', name: 'Dummy' };
+
+/**
+ * Placeholder SVG for a product image, so images load without network access
+ */
+export function renderPlaceholderImage(product: FixtureProduct): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="400"><rect width="400" height="400" fill="${product.imageColor}"/><text x="200" y="210" font-size="28" text-anchor="middle" fill="#fff">${product.name}</text></svg>`;
+}
+
+function mediaUrl(productId: string): string {
+  return `/media/${productId}.svg`;
+}
+
+function sizedVariants(productId: string, prices: Record<string, number>, soldOut: string[] = []): FixtureVariant[] {
+  return Object.entries(prices).map(([size, price]) => ({
+    id: `${productId}-${size.toLowerCase()}`,
+    name: size,
+    attributes: { Size: size },
+    price,
+    quantityAvailable: soldOut.includes(size) ? 0 : 50,
+  }));
+}
+
+/**
+ * One variant per size and color; sold out combinations are named like "L / Red"
+ */
+function sizeColorVariants(productId: string, prices: Record<string, number>, colors: string[], soldOut: string[] = []): FixtureVariant[] {
+  return Object.entries(prices).flatMap(([size, price]) => colors.map(color => ({
+    id: `${productId}-${size}-${color}`.toLowerCase(),
+    name: `${size} / ${color}`,
+    attributes: { Size: size, Color: color },
+    price,
+    quantityAvailable: soldOut.includes(`${size} / ${color}`) ? 0 : 50,
+  })));
+}
+
+export const FIXTURE_PRODUCTS: FixtureProduct[] = [
+  {
+    id: 'monospace-tee',
+    slug: 'monospace-tee',
+    name: 'Monospace Tee',
+    description: 'A classic fit tee printed with a monospace typeface.',
+    category: 't-shirts',
+    thumbnail: mediaUrl('monospace-tee'),
+    imageColor: '#1f2937',
+    variants: sizedVariants('monospace-tee', { S: 20, M: 20, L: 20, XL: 22 }, ['XL']),
+  },
+  {
+    id: 'dash-cushion',
+    slug: 'dash-cushion',
+    name: 'Dash Cushion',
+    description: 'A soft cushion for long debugging sessions.',
+    category: 'homewares',
+    thumbnail: mediaUrl('dash-cushion'),
+    imageColor: '#7c3aed',
+    variants: [{ id: 'dash-cushion-default', name: 'Default', attributes: {}, price: 30, quantityAvailable: 20 }],
+  },
+  {
+    id: 'paper-cup',
+    slug: 'paper-cup',
+    name: 'Paper Cup',
+    description: 'Compostable paper cup with the Saleor logo.',
+    category: 'homewares',
+    thumbnail: mediaUrl('paper-cup'),
+    imageColor: '#0f766e',
+    variants: [{ id: 'paper-cup-default', name: 'Default', attributes: {}, price: 4.5, quantityAvailable: 200 }],
+  },
+  {
+    id: 'ascii-hoodie',
+    slug: 'ascii-hoodie',
+    name: 'ASCII Hoodie',
+    description: 'Warm hoodie with an ASCII art print.',
+    category: 'hoodies',
+    thumbnail: mediaUrl('ascii-hoodie'),
+    imageColor: '#b91c1c',
+    variants: sizeColorVariants('ascii-hoodie', { S: 55, M: 55, L: 60 }, ['Black', 'Red'], ['L / Red']),
+  },
+];
+
+export const FIXTURE_CATEGORIES: FixtureListing[] = [
+  { slug: 't-shirts', name: 'T-shirts' },
+  { slug: 'hoodies', name: 'Hoodies' },
+  { slug: 'homewares', name: 'Homewares' },
+];
+
+export const FIXTURE_COLLECTIONS: FixtureCollection[] = [
+  {
+    slug: 'featured-products',
+    name: 'Featured Products',
+    productIds: ['monospace-tee', 'ascii-hoodie', 'dash-cushion', 'paper-cup'],
+  },
+];
+
+/** Products per category/collection page; small so the fixture catalog paginates */
+export const LISTING_PAGE_SIZE = 2;
+
+export function findChannel(slug: string): FixtureChannel | undefined {
+  return FIXTURE_CHANNELS.find(channel => channel.slug === slug);
+}
+
+export function findProduct(slug: string): FixtureProduct | undefined {
+  return FIXTURE_PRODUCTS.find(product => product.slug === slug);
+}
+
+export function findCategory(slug: string): FixtureListing | undefined {
+  return FIXTURE_CATEGORIES.find(category => category.slug === slug);
+}
+
+export function findCollection(slug: string): FixtureCollection | undefined {
+  return FIXTURE_COLLECTIONS.find(collection => collection.slug === slug);
+}
+
+export function categoryProducts(category: FixtureListing): FixtureProduct[] {
+  return FIXTURE_PRODUCTS.filter(product => product.category === category.slug);
+}
+
+export function collectionProducts(collection: FixtureCollection): FixtureProduct[] {
+  return collection.productIds
+    .map(id => FIXTURE_PRODUCTS.find(product => product.id === id))
+    .filter((product): product is FixtureProduct => product !== undefined);
+}
+
+/**
+ * Products whose name or description contains the query, ignoring case; nothing for a blank query
+ */
+export function searchProducts(query: string): FixtureProduct[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return [];
+  }
+  return FIXTURE_PRODUCTS.filter(product =>
+    product.name.toLowerCase().includes(needle) || product.description.toLowerCase().includes(needle)
+  );
+}
+
+export function findVariant(variantId: string): { product: FixtureProduct; variant: FixtureVariant } | undefined {
+  for (const product of FIXTURE_PRODUCTS) {
+    const variant = product.variants.find(candidate => candidate.id === variantId);
+    if (variant) {
+      return { product, variant };
+    }
+  }
+  return undefined;
+}
+
+export function findDeliveryMethod(id: string): FixtureDeliveryMethod | undefined {
+  return FIXTURE_DELIVERY_METHODS.find(method => method.id === id);
+}
+
+export function findCountry(code: string): FixtureCountry | undefined {
+  return FIXTURE_COUNTRIES.find(country => country.code === code);
+}
+
+export function findUser(email: string): FixtureUser | undefined {
+  return FIXTURE_USERS.find(user => user.email.toLowerCase() === email.trim().toLowerCase());
+}
+
+/**
+ * Price of a variant or delivery method in the channel currency, rounded to cents
+ */
+export function channelPrice(priced: { price: number }, channel: FixtureChannel): number {
+  return Math.round(priced.price * channel.priceMultiplier * 100) / 100;
+}
+
+export function formatPrice(amount: number, channel: FixtureChannel): string {
+  return new Intl.NumberFormat(channel.locale, { style: 'currency', currency: channel.currency }).format(amount);
+}
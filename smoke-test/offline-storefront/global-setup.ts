@@ -0,0 +1,19 @@
+import { FullConfig } from '@playwright/test';
+import { getConfig } from '../config/test-config';
+import { startOfflineStorefront } from './server';
+
+/**
+ * Playwright global setup that boots the offline storefront on the BASE_URL port
+ * The returned function is used by Playwright as the matching teardown
+ */
+export default async function globalSetup(_config: FullConfig): Promise<() => Promise<void>> {
+  const { baseURL } = getConfig();
+  const { hostname, port } = new URL(baseURL);
+
+  const storefront = await startOfflineStorefront({ host: hostname, port: Number(port || 80) });
+  console.log(`Offline storefront listening on ${storefront.url}`);
+
+  return async () => {
+    await storefront.close();
+  };
+}
@@ -0,0 +1,220 @@
+import type {
+  Channel,
+  Checkout as ApiCheckout,
+  CheckoutCreateInput,
+  CheckoutLineInput,
+  Collection,
+  GraphQLResponse,
+  MutationError,
+  ProductDetail,
+  ProductSummary,
+} from '../api/types';
+import {
+  FIXTURE_CHANNELS,
+  FIXTURE_PRODUCTS,
+  FixtureChannel,
+  FixtureCollection,
+  FixtureProduct,
+  channelPrice,
+  collectionProducts,
+  findChannel,
+  findCollection,
+  findProduct,
+  findVariant,
+} from './catalog';
+import { Checkout, OfflineStore, checkoutTotal, lineTotal } from './store';
+
+/**
+ * Mock Saleor GraphQL endpoint for the offline storefront
+ * Dispatches on operationName instead of parsing queries; it answers exactly the operations
+ * sent by SaleorApiClient and shares its state with the HTML storefront
+ */
+
+export interface GraphQLRequestBody {
+  operationName?: string;
+  query?: string;
+  variables?: Record<string, unknown>;
+}
+
+type Resolver = (variables: Record<string, unknown>) => unknown;
+
+function money(amount: number, channel: FixtureChannel): { gross: { amount: number; currency: string } } {
+  return { gross: { amount, currency: channel.currency } };
+}
+
+function toChannel(channel: FixtureChannel): Channel {
+  return { id: channel.slug, slug: channel.slug, name: channel.name, currencyCode: channel.currency, isActive: true };
+}
+
+function toCollection(collection: FixtureCollection): Collection {
+  const totalCount = collectionProducts(collection).length;
+  return { id: collection.slug, slug: collection.slug, name: collection.name, products: { totalCount } };
+}
+
+function toProductSummary(product: FixtureProduct, channel: FixtureChannel): ProductSummary {
+  const start = Math.min(...product.variants.map(variant => channelPrice(variant, channel)));
+  return {
+    id: product.id,
+    slug: product.slug,
+    name: product.name,
+    thumbnail: { url: product.thumbnail },
+    pricing: { priceRange: { start: money(start, channel) } },
+  };
+}
+
+function toProductDetail(product: FixtureProduct, channel: FixtureChannel): ProductDetail {
+  return {
+    ...toProductSummary(product, channel),
+    description: product.description,
+    variants: product.variants.map(variant => ({
+      id: variant.id,
+      name: variant.name,
+      quantityAvailable: variant.quantityAvailable,
+      attributes: Object.entries(variant.attributes).map(([name, value]) => ({
+        attribute: { name },
+        values: [{ name: value }],
+      })),
+      pricing: { price: money(channelPrice(variant, channel), channel) },
+    })),
+  };
+}
+
+function toApiCheckout(checkout: Checkout): ApiCheckout {
+  const channel = findChannel(checkout.channel) as FixtureChannel;
+  return {
+    id: checkout.id,
+    token: checkout.id,
+    email: checkout.email,
+    channel: { slug: checkout.channel },
+    lines: checkout.lines.map(line => {
+      const match = findVariant(line.variantId);
+      return {
+        id: line.id,
+        quantity: line.quantity,
+        totalPrice: money(lineTotal(line, channel), channel),
+        variant: {
+          id: line.variantId,
+          name: match?.variant.name ?? '',
+          product: { name: match?.product.name ?? '', slug: match?.product.slug ?? '' },
+        },
+      };
+    }),
+    totalPrice: money(checkoutTotal(checkout, channel), channel),
+  };
+}
+
+function requireChannel(slug: unknown): FixtureChannel {
+  const channel = typeof slug === 'string' ? findChannel(slug) : undefined;
+  if (!channel) {
+    throw new Error(`Channel with '${String(slug)}' slug does not exist.`);
+  }
+  return channel;
+}
+
+function lineErrors(lines: CheckoutLineInput[]): MutationError[] {
+  return lines
+    .filter(line => !findVariant(line.variantId) || line.quantity <= 0)
+    .map(line => ({
+      field: 'lines',
+      message: `Invalid line for variant ${line.variantId}`,
+      code: findVariant(line.variantId) ? 'ZERO_QUANTITY' : 'NOT_FOUND',
+    }));
+}
+
+export function createResolvers(store: OfflineStore): Record<string, Resolver> {
+  return {
+    Channels: () => ({ channels: FIXTURE_CHANNELS.map(toChannel) }),
+
+    Products: variables => {
+      const channel = requireChannel(variables['channel']);
+      const first = Number(variables['first'] ?? 20);
+      return {
+        products: {
+          edges: FIXTURE_PRODUCTS.slice(0, first).map(product => ({ node: toProductSummary(product, channel) })),
+          pageInfo: { hasNextPage: FIXTURE_PRODUCTS.length > first, endCursor: null },
+        },
+      };
+    },
+
+    Product: variables => {
+      const channel = requireChannel(variables['channel']);
+      const product = findProduct(String(variables['slug']));
+      return { product: product ? toProductDetail(product, channel) : null };
+    },
+
+    Collection: variables => {
+      requireChannel(variables['channel']);
+      const collection = findCollection(String(variables['slug']));
+      return { collection: collection ? toCollection(collection) : null };
+    },
+
+    CheckoutCreate: variables => {
+      const input = variables['input'] as CheckoutCreateInput;
+      const channel = requireChannel(input.channel);
+      const errors = lineErrors(input.lines ?? []);
+      if (errors.length > 0) {
+        return { checkoutCreate: { checkout: null, errors } };
+      }
+
+      const checkout = store.createCheckout(channel.slug);
+      checkout.email = input.email ?? null;
+      for (const line of input.lines ?? []) {
+        store.addLine(checkout, line.variantId, line.quantity);
+      }
+      return { checkoutCreate: { checkout: toApiCheckout(checkout), errors: [] } };
+    },
+
+    CheckoutLinesAdd: variables => {
+      const checkout = store.getCheckout(String(variables['id']));
+      const lines = (variables['lines'] ?? []) as CheckoutLineInput[];
+      if (!checkout) {
+        return { checkoutLinesAdd: { checkout: null, errors: [{ field: 'id', message: 'Checkout not found', code: 'NOT_FOUND' }] } };
+      }
+
+      const errors = lineErrors(lines);
+      if (errors.length > 0) {
+        return { checkoutLinesAdd: { checkout: null, errors } };
+      }
+
+      for (const line of lines) {
+        store.addLine(checkout, line.variantId, line.quantity);
+      }
+      return { checkoutLinesAdd: { checkout: toApiCheckout(checkout), errors: [] } };
+    },
+
+    CheckoutComplete: variables => {
+      const checkout = store.getCheckout(String(variables['id']));
+      if (!checkout) {
+        return { checkoutComplete: { order: null, errors: [{ field: 'id', message: 'Checkout not found', code: 'NOT_FOUND' }] } };
+      }
+      if (checkout.lines.length === 0) {
+        return { checkoutComplete: { order: null, errors: [{ field: 'lines', message: 'Cannot create order without lines', code: 'NO_LINES' }] } };
+      }
+
+      const channel = requireChannel(checkout.channel);
+      const order = store.completeCheckout(checkout, channel);
+      return {
+        checkoutComplete: {
+          order: { id: order.id, number: order.number, status: 'UNFULFILLED', total: money(order.total, channel) },
+          errors: [],
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Execute a GraphQL request body against the mock resolvers
+ */
+export function executeGraphQL(resolvers: Record<string, Resolver>, body: GraphQLRequestBody): GraphQLResponse<unknown> {
+  const resolver = body.operationName ? resolvers[body.operationName] : undefined;
+  if (!resolver) {
+    return { data: null, errors: [{ message: `Unsupported operation: ${body.operationName ?? '(anonymous)'}` }] };
+  }
+
+  try {
+    return { data: resolver(body.variables ?? {}) };
+  } catch (error) {
+    return { data: null, errors: [{ message: (error as Error).message }] };
+  }
+}
@@ -0,0 +1,703 @@
+import {
+  Address,
+  DUMMY_GATEWAY,
+  FIXTURE_CATEGORIES,
+  FIXTURE_CHANNELS,
+  FIXTURE_COLLECTIONS,
+  FIXTURE_COUNTRIES,
+  FIXTURE_DELIVERY_METHODS,
+  FIXTURE_PRODUCTS,
+  FixtureChannel,
+  FixtureListing,
+  FixtureProduct,
+  FixtureUser,
+  channelPrice,
+  findChannel,
+  findCountry,
+  findVariant,
+  formatPrice,
+} from './catalog';
+import { Checkout, Order, checkoutQuantity, checkoutSubtotal, checkoutTotal, lineTotal, shippingPrice } from './store';
+
+/**
+ * Validation error; field is the form input name it belongs to, e.g. "shippingAddress.postalCode"
+ */
+export interface FormError {
+  field: string | null;
+  message: string;
+}
+
+/**
+ * HTML renderers for the offline storefront
+ * Markup uses the data-testid hooks the page objects look for first
+ */
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+interface LayoutOptions {
+  title: string;
+  channel: FixtureChannel;
+  checkout: Checkout | undefined;
+  /** Signed-in user, shown in the header instead of the sign-in link */
+  user?: FixtureUser | undefined;
+  body: string;
+  /** Current search query, kept in the header search box */
+  query?: string;
+}
+
+function layout({ title, channel, checkout, user, body, query = '' }: LayoutOptions): string {
+  const quantity = checkoutQuantity(checkout);
+  const badge = quantity > 0 ? `<span data-testid="cart-badge" class="cart-badge">${quantity}</span>` : '';
+  const categoryLinks = FIXTURE_CATEGORIES
+    .map(category => `<a data-testid="nav-category" href="/${channel.slug}/categories/${category.slug}">${escapeHtml(category.name)}</a>`)
+    .join('\n      ');
+  const collectionLinks = FIXTURE_COLLECTIONS
+    .map(collection => `<a data-testid="nav-collection" href="/${channel.slug}/collections/${collection.slug}">${escapeHtml(collection.name)}</a>`)
+    .join('\n      ');
+  const channelLinks = FIXTURE_CHANNELS
+    .map(candidate => `<a href="/${candidate.slug}">${escapeHtml(candidate.currency)}</a>`)
+    .join(' ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)} | Offline Storefront</title>
+  <style>
+    body { font-family: sans-serif; margin: 0; }
+    header, footer, main { padding: 16px; }
+    header { display: flex; gap: 16px; align-items: center; border-bottom: 1px solid #ddd; }
+    .product-list ul { display: grid; grid-template-columns: repeat(4, 1fr); gap: 16px; list-style: none; padding: 0; }
+    img { max-width: 100%; }
+    button[aria-pressed="true"] { outline: 2px solid #000; }
+  </style>
+</head>
+<body>
+  <header>
+    <a data-testid="logo" class="logo" href="/${channel.slug}"><img src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" alt="Saleor" width="32" height="32">Saleor</a>
+    <nav data-testid="navigation">
+      <a href="/${channel.slug}">All products</a>
+      ${categoryLinks}
+      ${collectionLinks}
+    </nav>
+    <form data-testid="search-form" role="search" method="get" action="/${channel.slug}/search">
+      <input data-testid="search" type="search" name="query" value="${escapeHtml(query)}" placeholder="Search for products..." aria-label="Search for products">
+    </form>
+    <a data-testid="cart" href="/${channel.slug}/cart">Cart ${badge}</a>
+    ${user
+      ? `<a data-testid="user-menu" class="user-menu" href="/${channel.slug}/account">${escapeHtml(user.email)}</a>
+    <form method="post" action="/${channel.slug}/logout"><button type="submit" data-testid="sign-out" class="sign-out">Sign out</button></form>`
+      : `<a data-testid="sign-in" class="sign-in" href="/${channel.slug}/login">Sign in</a>`}
+  </header>
+  <main>
+${body}
+  </main>
+  <footer>
+    <p>Offline storefront fixture - ${escapeHtml(channel.name)}</p>
+    <p>Channels: ${channelLinks}</p>
+  </footer>
+</body>
+</html>`;
+}
+
+function productCard(product: FixtureProduct, channel: FixtureChannel): string {
+  const prices = product.variants.map(variant => channelPrice(variant, channel));
+  const from = Math.min(...prices);
+
+  return `<li>
+      <a data-testid="product-card" class="product-card" href="/${channel.slug}/products/${product.slug}">
+        <img src="${product.thumbnail}" alt="${escapeHtml(product.name)}" width="200" height="200">
+        <h2>${escapeHtml(product.name)}</h2>
+        <p>${escapeHtml(formatPrice(from, channel))}</p>
+      </a>
+    </li>`;
+}
+
+export function renderHomePage(channel: FixtureChannel, checkout: Checkout | undefined, user: FixtureUser | undefined): string {
+  const cards = FIXTURE_PRODUCTS.map(product => productCard(product, channel)).join('\n    ');
+
+  return layout({
+    title: 'Home',
+    channel,
+    checkout,
+    user,
+    body: `<section data-testid="product-list" class="product-list">
+    <ul>
+    ${cards}
+    </ul>
+  </section>`,
+  });
+}
+
+export interface ListingPage {
+  kind: 'categories' | 'collections';
+  listing: FixtureListing;
+  /** Products on the requested page */
+  products: FixtureProduct[];
+  /** 1-based page number */
+  page: number;
+  pageCount: number;
+}
+
+export function renderListingPage(
+  channel: FixtureChannel,
+  checkout: Checkout | undefined,
+  user: FixtureUser | undefined,
+  { kind, listing, products, page, pageCount }: ListingPage
+): string {
+  const cards = products.map(product => productCard(product, channel)).join('\n    ');
+  const pageUrl = (target: number): string => `/${channel.slug}/${kind}/${listing.slug}?page=${target}`;
+  const pagination = pageCount > 1
+    ? `<nav data-testid="pagination" class="pagination" aria-label="Pagination">
+    ${page > 1 ? `<a data-testid="pagination-previous" rel="prev" href="${pageUrl(page - 1)}">Previous page</a>` : ''}
+    <span data-testid="pagination-current">Page ${page} of ${pageCount}</span>
+    ${page < pageCount ? `<a data-testid="pagination-next" rel="next" href="${pageUrl(page + 1)}">Next page</a>` : ''}
+  </nav>`
+    : '';
+
+  return layout({
+    title: listing.name,
+    channel,
+    checkout,
+    user,
+    body: `<h1 data-testid="listing-title">${escapeHtml(listing.name)}</h1>
+  ${products.length === 0
+    ? '<p data-testid="listing-empty">No products found</p>'
+    : `<section data-testid="listing-products" class="product-list">
+    <ul>
+    ${cards}
+    </ul>
+  </section>`}
+  ${pagination}`,
+  });
+}
+
+export function renderSearchPage(
+  channel: FixtureChannel,
+  checkout: Checkout | undefined,
+  user: FixtureUser | undefined,
+  query: string,
+  results: FixtureProduct[]
+): string {
+  const cards = results.map(product => productCard(product, channel)).join('\n    ');
+
+  return layout({
+    title: `Search: ${query}`,
+    channel,
+    checkout,
+    user,
+    query,
+    body: `<h1 data-testid="search-title">Search results for "${escapeHtml(query)}"</h1>
+  ${results.length === 0
+    ? '<p data-testid="search-empty">Nothing found :(</p>'
+    : `<section data-testid="search-results" class="product-list">
+    <ul>
+    ${cards}
+    </ul>
+  </section>`}`,
+  });
+}
+
+export function renderProductPage(
+  channel: FixtureChannel,
+  product: FixtureProduct,
+  checkout: Checkout | undefined,
+  user: FixtureUser | undefined,
+  selectedVariantId: string | undefined,
+  added: boolean
+): string {
+  const hasChoice = product.variants.length > 1;
+  // Single-variant products are preselected, like in the Saleor storefront
+  const selected = product.variants.find(variant => variant.id === selectedVariantId)
+    ?? (hasChoice ? undefined : product.variants[0]);
+  const displayedPrice = selected
+    ? channelPrice(selected, channel)
+    : Math.min(...product.variants.map(variant => channelPrice(variant, channel)));
+  const canAdd = selected !== undefined && selected.quantityAvailable > 0;
+
+  // One group of options per attribute, e.g. Size and Color, in the order the variants define them
+  const attributes = [...new Set(product.variants.flatMap(variant => Object.keys(variant.attributes)))]
+    .map(name => ({
+      name,
+      values: [...new Set(product.variants.map(variant => variant.attributes[name]).filter((value): value is string => value !== undefined))],
+    }));
+
+  const attributeGroups = attributes.map(attribute => {
+    const type = attribute.name.toLowerCase();
+    const testId = type === 'size' || type === 'color' ? `${type}-option` : 'variant-option';
+    const buttons = attribute.values.map(value =>
+      `<button type="button" data-testid="${testId}" class="${testId}" data-variant="${escapeHtml(type)}"
+            data-attribute="${escapeHtml(attribute.name)}" data-value="${escapeHtml(value)}"
+            aria-pressed="${selected?.attributes[attribute.name] === value ? 'true' : 'false'}">${escapeHtml(value)}</button>`
+    ).join('\n          ');
+    return `<fieldset data-testid="variant-attribute" class="variant-attribute" data-variant-type="${escapeHtml(type)}">
+          <legend data-testid="variant-attribute-name">${escapeHtml(attribute.name)}</legend>
+          ${buttons}
+        </fieldset>`;
+  }).join('\n        ');
+
+  const variantSelector = hasChoice
+    ? `<div data-testid="variant-selector" class="variant-selector">
+        ${attributeGroups}
+      </div>`
+    : '';
+
+  // Read by the script below to resolve the selected combination of attribute values
+  const variantData = JSON.stringify(product.variants.map(variant => ({
+    id: variant.id,
+    attributes: variant.attributes,
+    price: formatPrice(channelPrice(variant, channel), channel),
+    available: variant.quantityAvailable > 0,
+  }))).replace(/</g, '\\u003c');
+
+  return layout({
+    title: product.name,
+    channel,
+    checkout,
+    user,
+    body: `<nav data-testid="breadcrumb" class="breadcrumb"><a href="/${channel.slug}">Home</a> / ${escapeHtml(product.name)}</nav>
+  <article>
+    <div data-testid="product-gallery" class="product-gallery gallery">
+      <img data-testid="product-image" class="product-image" src="${product.thumbnail}" alt="${escapeHtml(product.name)}" width="400" height="400">
+    </div>
+    <h1 data-testid="product-title" class="product-title">${escapeHtml(product.name)}</h1>
+    <p data-testid="product-price" class="product-price">${escapeHtml(formatPrice(displayedPrice, channel))}</p>
+    <p data-testid="product-description" class="product-description">${escapeHtml(product.description)}</p>
+    ${added ? '<p data-testid="add-to-cart-success" class="success" data-success>Added to cart</p>' : ''}
+    <form method="post" action="/${channel.slug}/cart/add">
+      ${variantSelector}
+      <input type="hidden" name="variantId" value="${selected?.id ?? ''}">
+      <input type="hidden" name="productSlug" value="${product.slug}">
+      <label>Quantity <input data-testid="quantity" class="quantity" type="number" name="quantity" min="1" value="1"></label>
+      <button type="submit" data-testid="add-to-cart" class="add-to-cart" ${canAdd ? '' : 'disabled'}>Add to cart</button>
+    </form>
+  </article>
+  <script>
+    // Selecting a value of every attribute picks a variant: updates price, availability and the ?variant= query parameter
+    var variants = ${variantData};
+    document.querySelectorAll('[data-attribute]').forEach(function (button) {
+      button.addEventListener('click', function () {
+        document.querySelectorAll('[data-attribute]').forEach(function (other) {
+          if (other.dataset.attribute === button.dataset.attribute) {
+            other.setAttribute('aria-pressed', other === button ? 'true' : 'false');
+          }
+        });
+        var selection = {};
+        document.querySelectorAll('[data-attribute][aria-pressed="true"]').forEach(function (pressed) {
+          selection[pressed.dataset.attribute] = pressed.dataset.value;
+        });
+        var variant = variants.find(function (candidate) {
+          return Object.keys(candidate.attributes).every(function (name) { return candidate.attributes[name] === selection[name]; });
+        });
+        document.querySelector('input[name="variantId"]').value = variant ? variant.id : '';
+        if (variant) {
+          document.querySelector('[data-testid="product-price"]').textContent = variant.price;
+        }
+        document.querySelector('[data-testid="add-to-cart"]').disabled = !variant || !variant.available;
+        var url = new URL(window.location.href);
+        if (variant) {
+          url.searchParams.set('variant', variant.id);
+        } else {
+          url.searchParams.delete('variant');
+        }
+        url.searchParams.delete('added');
+        window.history.replaceState(null, '', url.toString());
+      });
+    });
+  </script>`,
+  });
+}
+
+function cartLine(channel: FixtureChannel, line: Checkout['lines'][number]): string {
+  const match = findVariant(line.variantId);
+  if (!match) {
+    return '';
+  }
+
+  const { product, variant } = match;
+  const variantLabel = product.variants.length > 1 ? ` <small>(${escapeHtml(variant.name)})</small>` : '';
+
+  return `<li data-testid="cart-item" class="cart-item" data-line-id="${line.id}">
+        <h3 data-testid="cart-item-name" class="cart-item-name"><a href="/${channel.slug}/products/${product.slug}">${escapeHtml(product.name)}</a>${variantLabel}</h3>
+        <p data-testid="cart-item-price" class="cart-item-price">${escapeHtml(formatPrice(channelPrice(variant, channel), channel))}</p>
+        <form method="post" action="/${channel.slug}/cart/update">
+          <input type="hidden" name="lineId" value="${line.id}">
+          <input data-testid="cart-item-quantity" class="cart-item-quantity" type="number" name="quantity" min="0" value="${line.quantity}">
+          <button type="submit" data-testid="update-quantity" class="update-quantity">Update</button>
+        </form>
+        <p data-testid="cart-item-total" class="cart-item-total">${escapeHtml(formatPrice(lineTotal(line, channel), channel))}</p>
+        <form method="post" action="/${channel.slug}/cart/remove">
+          <input type="hidden" name="lineId" value="${line.id}">
+          <button type="submit" data-testid="remove-item" class="remove-item">Remove</button>
+        </form>
+      </li>`;
+}
+
+export function renderCartPage(channel: FixtureChannel, checkout: Checkout | undefined, user: FixtureUser | undefined): string {
+  const lines = checkout?.lines ?? [];
+
+  const body = lines.length === 0 || !checkout
+    ? `<h1 data-testid="cart-title" class="cart-title">Shopping Cart</h1>
+  <p data-testid="empty-cart" class="empty-cart">Your Shopping Cart is empty</p>
+  <a data-testid="continue-shopping" class="continue-shopping" href="/${channel.slug}">Continue shopping</a>`
+    : `<h1 data-testid="cart-title" class="cart-title">Shopping Cart</h1>
+  <ul>
+      ${lines.map(line => cartLine(channel, line)).join('\n      ')}
+  </ul>
+  <section data-testid="cart-summary" class="cart-summary">
+    <p>Subtotal: <span data-testid="cart-subtotal" class="cart-subtotal">${escapeHtml(formatPrice(checkoutSubtotal(checkout, channel), channel))}</span></p>
+    <p>Total: <span data-testid="cart-total" class="cart-total">${escapeHtml(formatPrice(checkoutTotal(checkout, channel), channel))}</span></p>
+    <a data-testid="checkout" class="checkout-button" href="/checkout?checkout=${checkout.id}">Checkout</a>
+  </section>`;
+
+  return layout({ title: 'Cart', channel, checkout, user, body });
+}
+
+const ADDRESS_FIELDS: Array<{ name: Exclude<keyof Address, 'country'>; label: string; autocomplete: string }> = [
+  { name: 'firstName', label: 'First name', autocomplete: 'given-name' },
+  { name: 'lastName', label: 'Last name', autocomplete: 'family-name' },
+  { name: 'streetAddress1', label: 'Street address', autocomplete: 'address-line1' },
+  { name: 'city', label: 'City', autocomplete: 'address-level2' },
+  { name: 'postalCode', label: 'Postal code', autocomplete: 'postal-code' },
+  { name: 'countryArea', label: 'State / province', autocomplete: 'address-level1' },
+  { name: 'phone', label: 'Phone', autocomplete: 'tel' },
+];
+
+/**
+ * Address inputs named "<prefix>.<field>", so shipping and billing can share one form
+ * The state input is a dropdown for countries with country areas and is swapped client-side
+ * when the country changes, like the storefront's country-dependent fields
+ */
+function addressFields(prefix: 'shippingAddress' | 'billingAddress', address: Address | null, errors: FormError[]): string {
+  const selectedCountry = findCountry(address?.country ?? '') ?? FIXTURE_COUNTRIES[0];
+  const fieldError = (field: keyof Address): string => errors
+    .filter(error => error.field === `${prefix}.${field}`)
+    .map(error => ` <span data-testid="field-error" class="field-error">${escapeHtml(error.message)}</span>`)
+    .join('');
+
+  const countries = FIXTURE_COUNTRIES
+    .map(country => `<option value="${country.code}"${selectedCountry?.code === country.code ? ' selected' : ''}>${escapeHtml(country.name)}</option>`)
+    .join('');
+  const inputs = ADDRESS_FIELDS.map(field => {
+    const attributes = `data-testid="address-${field.name}" name="${prefix}.${field.name}" autocomplete="${field.autocomplete}"`;
+    const value = address?.[field.name] ?? '';
+    const control = field.name === 'countryArea' && selectedCountry?.countryAreas.length
+      ? `<select ${attributes}><option value="">Select a state</option>${selectedCountry.countryAreas
+        .map(area => `<option value="${area.code}"${value === area.code ? ' selected' : ''}>${escapeHtml(area.name)}</option>`)
+        .join('')}</select>`
+      : `<input ${attributes} value="${escapeHtml(value)}">`;
+    return `<label>${field.label} ${control}</label>${fieldError(field.name)}`;
+  }).join('\n        ');
+
+  return `<div data-address-form>
+        <label>Country <select data-testid="address-country" name="${prefix}.country" autocomplete="country">${countries}</select></label>${fieldError('country')}
+        ${inputs}
+      </div>`;
+}
+
+/**
+ * Client-side swap of the state input between dropdown and text field on country change
+ */
+function countryAreaScript(): string {
+  const countryAreas = Object.fromEntries(FIXTURE_COUNTRIES.map(country => [country.code, country.countryAreas]));
+  return `const COUNTRY_AREAS = ${JSON.stringify(countryAreas)};
+    document.querySelectorAll('[data-testid="address-country"]').forEach(country => {
+      country.addEventListener('change', () => {
+        const current = country.closest('[data-address-form]').querySelector('[data-testid="address-countryArea"]');
+        const areas = COUNTRY_AREAS[country.value] || [];
+        const replacement = document.createElement(areas.length > 0 ? 'select' : 'input');
+        for (const attribute of ['data-testid', 'name', 'autocomplete']) {
+          replacement.setAttribute(attribute, current.getAttribute(attribute));
+        }
+        if (areas.length > 0) {
+          replacement.add(new Option('Select a state', ''));
+          areas.forEach(area => replacement.add(new Option(area.name, area.code)));
+        }
+        current.replaceWith(replacement);
+      });
+    });`;
+}
+
+/**
+ * One-line address as shown in address pickers and the address book
+ */
+export function formatAddress(address: Address): string {
+  const area = address.countryArea ? ` ${address.countryArea}` : '';
+  return `${address.firstName} ${address.lastName}, ${address.streetAddress1}, ${address.postalCode} ${address.city}${area}, ${address.country}`;
+}
+
+/**
+ * Saved addresses of a signed-in customer, the first (default) one preselected, plus "use a new address"
+ */
+function savedAddressPicker(user: FixtureUser, checkout: Checkout, errors: FormError[]): string {
+  const options = user.addresses.map((address, index) =>
+    `<label><input data-testid="saved-address" type="radio" name="shippingAddressId" value="${index}"${index === 0 ? ' checked' : ''}> ${escapeHtml(formatAddress(address))}</label>`
+  ).join('\n      ');
+
+  return `${options}
+      <label><input data-testid="new-address" type="radio" name="shippingAddressId" value="new"> Use a new address</label>
+      <div data-testid="new-address-fields" hidden>
+        ${addressFields('shippingAddress', checkout.shippingAddress, errors)}
+      </div>
+      <script>
+        document.querySelectorAll('input[name="shippingAddressId"]').forEach(option => {
+          option.addEventListener('change', () => {
+            document.querySelector('[data-testid="new-address-fields"]').hidden = option.value !== 'new';
+          });
+        });
+      </script>`;
+}
+
+export function renderCheckoutPage(
+  channel: FixtureChannel,
+  checkout: Checkout | undefined,
+  user: FixtureUser | undefined,
+  errors: FormError[] = []
+): string {
+  if (!checkout || checkout.lines.length === 0) {
+    return layout({
+      title: 'Checkout',
+      channel,
+      checkout,
+      user,
+      body: `<h1 data-testid="checkout-title" class="checkout-title">Checkout</h1>
+  <p data-testid="empty-cart" class="empty-cart">Your cart is empty</p>
+  <a href="/${channel.slug}">Continue shopping</a>`,
+    });
+  }
+
+  const errorList = errors.length > 0
+    ? `<ul data-testid="checkout-errors" class="errors" role="alert">${errors.map(error => `<li>${escapeHtml(error.message)}</li>`).join('')}</ul>`
+    : '';
+  const deliveryMethods = FIXTURE_DELIVERY_METHODS.map(method =>
+    `<label><input data-testid="delivery-method" type="radio" name="deliveryMethod" value="${method.id}" data-amount="${channelPrice(method, channel)}"${checkout.deliveryMethodId === method.id ? ' checked' : ''}> ` +
+    `${escapeHtml(method.name)} - ${escapeHtml(formatPrice(channelPrice(method, channel), channel))}</label>`
+  ).join('\n      ');
+
+  const summaryLines = checkout.lines.map(line => {
+    const match = findVariant(line.variantId);
+    return match
+      ? `<li data-testid="summary-item">${escapeHtml(match.product.name)} × ${line.quantity} - ${escapeHtml(formatPrice(lineTotal(line, channel), channel))}</li>`
+      : '';
+  }).join('\n        ');
+
+  // Signed-in customers check out with their account email and saved addresses
+  const contact = user
+    ? `<p>Signed in as <strong data-testid="signed-in-email">${escapeHtml(user.email)}</strong></p>`
+    : `<label>Email <input data-testid="email" type="email" name="email" autocomplete="email" value="${escapeHtml(checkout.email ?? '')}"></label>`;
+  const shippingAddress = user && user.addresses.length > 0
+    ? savedAddressPicker(user, checkout, errors)
+    : addressFields('shippingAddress', checkout.shippingAddress, errors);
+
+  return layout({
+    title: 'Checkout',
+    channel,
+    checkout,
+    user,
+    body: `<h1 data-testid="checkout-title" class="checkout-title">Checkout</h1>
+  ${errorList}
+  <form method="post" action="/checkout/complete">
+    <input type="hidden" name="checkoutId" value="${checkout.id}">
+    <section data-testid="login-section" class="login-section">
+      <h2>Contact details</h2>
+      ${contact}
+    </section>
+    <section data-testid="shipping-address" class="shipping-address">
+      <h2>Shipping address</h2>
+      ${shippingAddress}
+    </section>
+    <section data-testid="billing-address" class="billing-address">
+      <h2>Billing address</h2>
+      <label><input data-testid="use-same-address" type="checkbox" name="billingSameAsShipping" checked> Use shipping address as billing address</label>
+      <div data-testid="billing-fields" hidden>
+        ${addressFields('billingAddress', checkout.billingAddress, errors)}
+      </div>
+    </section>
+    <section data-testid="delivery-methods" class="delivery-methods">
+      <h2>Delivery methods</h2>
+      ${deliveryMethods}
+    </section>
+    <section data-testid="payment" class="payment-section">
+      <h2>Payment</h2>
+      <label><input data-testid="payment-gateway" type="radio" name="paymentGateway" value="${DUMMY_GATEWAY.id}"> ${escapeHtml(DUMMY_GATEWAY.name)} payment</label>
+      <button type="submit" data-testid="make-payment" class="make-payment">Make payment</button>
+    </section>
+  </form>
+  <script>
+    const sameAddress = document.querySelector('[data-testid="use-same-address"]');
+    sameAddress.addEventListener('change', () => {
+      document.querySelector('[data-testid="billing-fields"]').hidden = sameAddress.checked;
+    });
+    ${countryAreaScript()}
+    // Choosing a delivery method updates the shipping cost and total in the summary
+    const formatMoney = new Intl.NumberFormat(${JSON.stringify(channel.locale)}, { style: 'currency', currency: ${JSON.stringify(channel.currency)} });
+    document.querySelectorAll('[data-testid="delivery-method"]').forEach(method => {
+      method.addEventListener('change', () => {
+        const subtotal = Number(document.querySelector('[data-testid="summary-subtotal"]').dataset.amount);
+        const shipping = Number(method.dataset.amount);
+        document.querySelector('[data-testid="summary-shipping"]').textContent = formatMoney.format(shipping);
+        document.querySelector('[data-testid="summary-total"]').textContent = formatMoney.format(Math.round((subtotal + shipping) * 100) / 100);
+      });
+    });
+  </script>
+  <aside data-testid="order-summary" class="order-summary">
+    <h2>Summary</h2>
+    <ul>
+        ${summaryLines}
+    </ul>
+    <dl>
+      <dt>Subtotal</dt>
+      <dd data-testid="summary-subtotal" class="summary-subtotal" data-amount="${checkoutSubtotal(checkout, channel)}">${escapeHtml(formatPrice(checkoutSubtotal(checkout, channel), channel))}</dd>
+      <dt>Shipping</dt>
+      <dd data-testid="summary-shipping" class="summary-shipping">${escapeHtml(formatPrice(shippingPrice(checkout, channel), channel))}</dd>
+      <dt>Taxes</dt>
+      <dd data-testid="summary-tax" class="summary-tax">${escapeHtml(formatPrice(0, channel))}</dd>
+      <dt>Total</dt>
+      <dd data-testid="summary-total" class="summary-total">${escapeHtml(formatPrice(checkoutTotal(checkout, channel), channel))}</dd>
+    </dl>
+  </aside>`,
+  });
+}
+
+export function renderOrderConfirmation(channel: FixtureChannel, order: Order, user: FixtureUser | undefined): string {
+  return layout({
+    title: `Order #${order.number}`,
+    channel,
+    checkout: undefined,
+    user,
+    body: `<section data-testid="order-confirmation" class="order-confirmation">
+    <h1>Order #<span data-testid="order-number">${escapeHtml(order.number)}</span> confirmed</h1>
+    <p>Thank you for your order. Total: ${escapeHtml(formatPrice(order.total, channel))}</p>
+  </section>`,
+  });
+}
+
+function accountNav(channel: FixtureChannel): string {
+  return `<nav data-testid="account-nav" class="account-nav">
+    <a data-testid="account-profile-link" href="/${channel.slug}/account">Profile</a>
+    <a data-testid="account-orders-link" href="/${channel.slug}/account/orders">Orders</a>
+    <a data-testid="account-addresses-link" href="/${channel.slug}/account/addresses">Addresses</a>
+  </nav>`;
+}
+
+export function renderAccountPage(channel: FixtureChannel, checkout: Checkout | undefined, user: FixtureUser): string {
+  return layout({
+    title: 'My account',
+    channel,
+    checkout,
+    user,
+    body: `<h1 data-testid="account-title">My account</h1>
+  ${accountNav(channel)}
+  <section data-testid="account-profile" class="account-profile">
+    <p>Name: <span data-testid="account-name">${escapeHtml(`${user.firstName} ${user.lastName}`)}</span></p>
+    <p>Email: <span data-testid="account-email">${escapeHtml(user.email)}</span></p>
+  </section>`,
+  });
+}
+
+export function renderOrderHistoryPage(channel: FixtureChannel, checkout: Checkout | undefined, user: FixtureUser, orders: Order[]): string {
+  const rows = orders.map(order => {
+    const orderChannel = findChannel(order.channel) ?? channel;
+    return `<tr data-testid="order-row" class="order-row">
+        <td><a data-testid="order-row-number" href="/${channel.slug}/account/orders/${order.number}">#${order.number}</a></td>
+        <td>${escapeHtml(order.createdAt.slice(0, 10))}</td>
+        <td>Unfulfilled</td>
+        <td>${escapeHtml(formatPrice(order.total, orderChannel))}</td>
+      </tr>`;
+  }).join('\n      ');
+
+  return layout({
+    title: 'Orders',
+    channel,
+    checkout,
+    user,
+    body: `<h1 data-testid="order-history-title">Orders</h1>
+  ${accountNav(channel)}
+  ${orders.length === 0
+    ? '<p data-testid="order-history-empty">You have not placed any orders yet</p>'
+    : `<table data-testid="order-history" class="order-history">
+    <thead><tr><th>Number</th><th>Date</th><th>Status</th><th>Total</th></tr></thead>
+    <tbody>
+      ${rows}
+    </tbody>
+  </table>`}`,
+  });
+}
+
+export function renderOrderDetailsPage(channel: FixtureChannel, checkout: Checkout | undefined, user: FixtureUser, order: Order): string {
+  const orderChannel = findChannel(order.channel) ?? channel;
+  const lines = order.lines.map(line => {
+    const match = findVariant(line.variantId);
+    return match
+      ? `<li data-testid="order-line" class="order-line">${escapeHtml(match.product.name)} (${escapeHtml(match.variant.name)}) × ${line.quantity} - ${escapeHtml(formatPrice(lineTotal(line, orderChannel), orderChannel))}</li>`
+      : '';
+  }).join('\n      ');
+
+  return layout({
+    title: `Order #${order.number}`,
+    channel,
+    checkout,
+    user,
+    body: `<h1 data-testid="order-details-title">Order #<span data-testid="order-number">${escapeHtml(order.number)}</span></h1>
+  ${accountNav(channel)}
+  <section data-testid="order-details" class="order-details">
+    <ul>
+      ${lines}
+    </ul>
+    ${order.shippingAddress ? `<p>Shipping to: <span data-testid="order-shipping-address">${escapeHtml(formatAddress(order.shippingAddress))}</span></p>` : ''}
+    <p>Total: <span data-testid="order-total">${escapeHtml(formatPrice(order.total, orderChannel))}</span></p>
+  </section>`,
+  });
+}
+
+export function renderAddressBookPage(channel: FixtureChannel, checkout: Checkout | undefined, user: FixtureUser): string {
+  const cards = user.addresses.map((address, index) =>
+    `<li><address data-testid="address-card" class="address-card">${escapeHtml(formatAddress(address))}${index === 0 ? ' <span data-testid="default-address">Default</span>' : ''}</address></li>`
+  ).join('\n      ');
+
+  return layout({
+    title: 'Addresses',
+    channel,
+    checkout,
+    user,
+    body: `<h1 data-testid="address-book-title">Addresses</h1>
+  ${accountNav(channel)}
+  ${user.addresses.length === 0
+    ? '<p data-testid="address-book-empty">You have no saved addresses</p>'
+    : `<ul data-testid="address-book" class="address-book">
+      ${cards}
+    </ul>`}`,
+  });
+}
+
+export function renderLoginPage(channel: FixtureChannel, checkout: Checkout | undefined, error?: string): string {
+  return layout({
+    title: 'Sign in',
+    channel,
+    checkout,
+    body: `<h1 data-testid="login-title">Sign in</h1>
+  ${error ? `<p data-testid="login-error" class="error" role="alert">${escapeHtml(error)}</p>` : ''}
+  <form data-testid="login-form" method="post" action="/${channel.slug}/login">
+    <label>Email <input data-testid="login-email" type="email" name="email" autocomplete="email"></label>
+    <label>Password <input data-testid="login-password" type="password" name="password" autocomplete="current-password"></label>
+    <button type="submit" data-testid="login-submit">Sign in</button>
+  </form>`,
+  });
+}
+
+export function renderNotFound(channel: FixtureChannel): string {
+  return layout({
+    title: 'Not found',
+    channel,
+    checkout: undefined,
+    body: `<h1 data-testid="not-found">404 - Page not found</h1>
+  <p>This page could not be found.</p>`,
+  });
+}
@@ -0,0 +1,510 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  Address,
+  DUMMY_GATEWAY,
+  FIXTURE_CHANNELS,
+  FIXTURE_PRODUCTS,
+  FixtureChannel,
+  FixtureUser,
+  LISTING_PAGE_SIZE,
+  categoryProducts,
+  collectionProducts,
+  findCategory,
+  findChannel,
+  findCollection,
+  findCountry,
+  findDeliveryMethod,
+  findProduct,
+  renderPlaceholderImage,
+  searchProducts,
+} from './catalog';
+import { GraphQLRequestBody, createResolvers, executeGraphQL } from './graphql';
+import {
+  renderCartPage,
+  FormError,
+  renderCheckoutPage,
+  renderAccountPage,
+  renderAddressBookPage,
+  renderHomePage,
+  renderLoginPage,
+  renderNotFound,
+  renderOrderConfirmation,
+  renderOrderDetailsPage,
+  renderListingPage,
+  renderOrderHistoryPage,
+  renderSearchPage,
+  renderProductPage,
+} from './pages';
+import { Checkout, OfflineStore, SESSION_COOKIE, checkoutCookieName } from './store';
+
+/**
+ * Offline stand-in for the Saleor storefront
+ * Serves the routes and markup the page objects expect, backed by an in-memory cart,
+ * so the smoke suite can run without the Saleor Docker stack.
+ * A mock Saleor GraphQL API sharing the same state is served at /graphql/
+ */
+
+export interface OfflineStorefrontOptions {
+  port: number;
+  host?: string;
+}
+
+export interface RunningOfflineStorefront {
+  url: string;
+  store: OfflineStore;
+  close(): Promise<void>;
+}
+
+interface RequestContext {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  url: URL;
+  cookies: Record<string, string>;
+}
+
+const DEFAULT_CHANNEL = FIXTURE_CHANNELS[0] as FixtureChannel;
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (header ?? '').split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0) {
+      cookies[part.slice(0, separator).trim()] = decodeURIComponent(part.slice(separator + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+async function readBody(req: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+async function readForm(req: http.IncomingMessage): Promise<URLSearchParams> {
+  return new URLSearchParams(await readBody(req));
+}
+
+function sendHtml(res: http.ServerResponse, status: number, html: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', ...headers });
+  res.end(html);
+}
+
+function redirect(res: http.ServerResponse, location: string, headers: http.OutgoingHttpHeaders = {}): void {
+  res.writeHead(303, { Location: location, ...headers });
+  res.end();
+}
+
+const REQUIRED_ADDRESS_FIELDS = ['firstName', 'lastName', 'streetAddress1', 'city', 'postalCode'] as const;
+
+/**
+ * Read "<prefix>.<field>" inputs into an address, collecting validation errors per field
+ */
+function readAddress(form: URLSearchParams, prefix: string, label: string, errors: FormError[]): Address {
+  const value = (field: string): string => (form.get(`${prefix}.${field}`) ?? '').trim();
+  const address: Address = {
+    firstName: value('firstName'),
+    lastName: value('lastName'),
+    streetAddress1: value('streetAddress1'),
+    city: value('city'),
+    postalCode: value('postalCode'),
+    country: value('country'),
+    countryArea: value('countryArea'),
+    phone: value('phone'),
+  };
+
+  const fail = (field: string, message: string): void => {
+    errors.push({ field: `${prefix}.${field}`, message: `${label}: ${message}` });
+  };
+
+  for (const field of REQUIRED_ADDRESS_FIELDS.filter(candidate => !address[candidate])) {
+    fail(field, `${field} is required`);
+  }
+
+  const country = findCountry(address.country);
+  if (!country) {
+    fail('country', 'country is not supported');
+    return address;
+  }
+  if (address.postalCode && !country.postalCodePattern.test(address.postalCode)) {
+    fail('postalCode', `postalCode "${address.postalCode}" is not valid for ${country.code}`);
+  }
+  if (country.countryAreas.length > 0 && !country.countryAreas.some(area => area.code === address.countryArea)) {
+    fail('countryArea', `countryArea must be one of ${country.countryAreas.map(area => area.code).join(', ')} for ${country.code}`);
+  }
+  return address;
+}
+
+function checkoutCookie(checkout: Checkout): string {
+  return `${checkoutCookieName(checkout.channel)}=${encodeURIComponent(checkout.id)}; Path=/; SameSite=Lax`;
+}
+
+export class OfflineStorefrontServer {
+  readonly store = new OfflineStore();
+  private readonly resolvers = createResolvers(this.store);
+  private readonly server = http.createServer((req, res) => {
+    this.handle(req, res).catch(error => {
+      sendHtml(res, 500, `<h1>500 - Internal server error</h1><pre>${String(error)}</pre>`);
+    });
+  });
+
+  /**
+   * Start listening; resolves with the base URL once the port is bound
+   */
+  async listen({ port, host = 'localhost' }: OfflineStorefrontOptions): Promise<string> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => resolve());
+    });
+    const address = this.server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  private checkoutFor(ctx: RequestContext, channel: string): Checkout | undefined {
+    return this.store.getCheckout(ctx.cookies[checkoutCookieName(channel)]);
+  }
+
+  private userFor(ctx: RequestContext): FixtureUser | undefined {
+    return this.store.getSessionUser(ctx.cookies[SESSION_COOKIE]);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const ctx: RequestContext = { req, res, url, cookies: parseCookies(req.headers.cookie) };
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (segments.length === 0) {
+      redirect(res, `/${DEFAULT_CHANNEL.slug}`);
+      return;
+    }
+
+    if (segments[0] === 'graphql' && segments.length === 1) {
+      await this.handleGraphQL(ctx);
+      return;
+    }
+
+    if (segments[0] === 'media' && segments.length === 2 && req.method === 'GET') {
+      const product = FIXTURE_PRODUCTS.find(candidate => `${candidate.id}.svg` === segments[1]);
+      if (product) {
+        res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+        res.end(renderPlaceholderImage(product));
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+      return;
+    }
+
+    if (segments[0] === 'checkout') {
+      await this.handleCheckout(ctx, segments.slice(1));
+      return;
+    }
+
+    const channel = findChannel(segments[0] ?? '');
+    if (!channel) {
+      sendHtml(res, 404, renderNotFound(DEFAULT_CHANNEL));
+      return;
+    }
+
+    await this.handleChannelRoute(ctx, channel, segments.slice(1));
+  }
+
+  private async handleGraphQL({ req, res }: RequestContext): Promise<void> {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' });
+      res.end();
+      return;
+    }
+
+    let body: GraphQLRequestBody;
+    try {
+      body = JSON.parse(await readBody(req)) as GraphQLRequestBody;
+    } catch {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ errors: [{ message: 'Invalid JSON body' }] }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(executeGraphQL(this.resolvers, body)));
+  }
+
+  private async handleChannelRoute(ctx: RequestContext, channel: FixtureChannel, segments: string[]): Promise<void> {
+    const { req, res, url } = ctx;
+    const [section, param] = segments;
+    const checkout = this.checkoutFor(ctx, channel.slug);
+    const user = this.userFor(ctx);
+
+    if (!section && req.method === 'GET') {
+      sendHtml(res, 200, renderHomePage(channel, checkout, user));
+      return;
+    }
+
+    if (section === 'login' && !param) {
+      await this.handleLogin(ctx, channel, checkout);
+      return;
+    }
+
+    if (section === 'account' && req.method === 'GET') {
+      this.handleAccount(ctx, channel, checkout, user, segments.slice(1));
+      return;
+    }
+
+    if (section === 'logout' && !param && req.method === 'POST') {
+      this.store.logout(ctx.cookies[SESSION_COOKIE]);
+      redirect(res, `/${channel.slug}`, { 'Set-Cookie': `${SESSION_COOKIE}=; Path=/; Max-Age=0` });
+      return;
+    }
+
+    if (section === 'search' && !param && req.method === 'GET') {
+      const query = url.searchParams.get('query') ?? '';
+      sendHtml(res, 200, renderSearchPage(channel, checkout, user, query, searchProducts(query)));
+      return;
+    }
+
+    if ((section === 'categories' || section === 'collections') && param && segments.length === 2 && req.method === 'GET') {
+      this.handleListing(ctx, channel, checkout, user, section, param);
+      return;
+    }
+
+    if (section === 'products' && param && segments.length === 2 && req.method === 'GET') {
+      const product = findProduct(param);
+      if (!product) {
+        sendHtml(res, 404, renderNotFound(channel));
+        return;
+      }
+      const variantId = url.searchParams.get('variant') ?? undefined;
+      sendHtml(res, 200, renderProductPage(channel, product, checkout, user, variantId, url.searchParams.has('added')));
+      return;
+    }
+
+    if (section === 'cart' && !param && req.method === 'GET') {
+      sendHtml(res, 200, renderCartPage(channel, checkout, user));
+      return;
+    }
+
+    if (section === 'cart' && req.method === 'POST') {
+      await this.handleCartMutation(ctx, channel, checkout, param);
+      return;
+    }
+
+    sendHtml(res, 404, renderNotFound(channel));
+  }
+
+  /**
+   * Sign-in form; a successful POST opens a session and returns to the storefront home
+   */
+  private async handleLogin(ctx: RequestContext, channel: FixtureChannel, checkout: Checkout | undefined): Promise<void> {
+    const { req, res } = ctx;
+
+    if (req.method === 'GET') {
+      sendHtml(res, 200, renderLoginPage(channel, checkout));
+      return;
+    }
+
+    const form = await readForm(req);
+    const token = this.store.login(form.get('email') ?? '', form.get('password') ?? '');
+    if (!token) {
+      sendHtml(res, 401, renderLoginPage(channel, checkout, 'Invalid email or password'));
+      return;
+    }
+
+    redirect(res, `/${channel.slug}`, {
+      'Set-Cookie': `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax`,
+    });
+  }
+
+  /**
+   * Category or collection listing, LISTING_PAGE_SIZE products per ?page=
+   */
+  private handleListing(
+    ctx: RequestContext,
+    channel: FixtureChannel,
+    checkout: Checkout | undefined,
+    user: FixtureUser | undefined,
+    kind: 'categories' | 'collections',
+    slug: string
+  ): void {
+    const { res, url } = ctx;
+    const category = kind === 'categories' ? findCategory(slug) : undefined;
+    const collection = kind === 'collections' ? findCollection(slug) : undefined;
+    const listing = category ?? collection;
+    if (!listing) {
+      sendHtml(res, 404, renderNotFound(channel));
+      return;
+    }
+
+    const products = collection ? collectionProducts(collection) : categoryProducts(listing);
+    const pageCount = Math.max(1, Math.ceil(products.length / LISTING_PAGE_SIZE));
+    const requested = Number(url.searchParams.get('page') ?? '1');
+    const page = Number.isInteger(requested) && requested >= 1 ? Math.min(requested, pageCount) : 1;
+    const start = (page - 1) * LISTING_PAGE_SIZE;
+
+    sendHtml(res, 200, renderListingPage(channel, checkout, user, {
+      kind,
+      listing,
+      products: products.slice(start, start + LISTING_PAGE_SIZE),
+      page,
+      pageCount,
+    }));
+  }
+
+  /**
+   * Account area: profile, order history, order details and address book; requires a session
+   */
+  private handleAccount(
+    ctx: RequestContext,
+    channel: FixtureChannel,
+    checkout: Checkout | undefined,
+    user: FixtureUser | undefined,
+    segments: string[]
+  ): void {
+    const { res } = ctx;
+    const [page, orderNumber] = segments;
+
+    if (!user) {
+      redirect(res, `/${channel.slug}/login`);
+      return;
+    }
+
+    if (!page) {
+      sendHtml(res, 200, renderAccountPage(channel, checkout, user));
+      return;
+    }
+
+    if (page === 'orders' && !orderNumber) {
+      sendHtml(res, 200, renderOrderHistoryPage(channel, checkout, user, this.store.ordersFor(user.email)));
+      return;
+    }
+
+    const order = page === 'orders' && segments.length === 2
+      ? this.store.ordersFor(user.email).find(candidate => candidate.number === orderNumber)
+      : undefined;
+    if (order) {
+      sendHtml(res, 200, renderOrderDetailsPage(channel, checkout, user, order));
+      return;
+    }
+
+    if (page === 'addresses' && segments.length === 1) {
+      sendHtml(res, 200, renderAddressBookPage(channel, checkout, user));
+      return;
+    }
+
+    sendHtml(res, 404, renderNotFound(channel));
+  }
+
+  private async handleCartMutation(
+    ctx: RequestContext,
+    channel: FixtureChannel,
+    existing: Checkout | undefined,
+    action: string | undefined
+  ): Promise<void> {
+    const form = await readForm(ctx.req);
+    const quantity = Number(form.get('quantity') ?? '1');
+
+    if (action === 'add') {
+      const variantId = form.get('variantId') ?? '';
+      const productSlug = form.get('productSlug') ?? '';
+      const checkout = existing ?? this.store.createCheckout(channel.slug);
+      this.store.addLine(checkout, variantId, Number.isFinite(quantity) && quantity > 0 ? quantity : 1);
+      redirect(
+        ctx.res,
+        `/${channel.slug}/products/${productSlug}?variant=${encodeURIComponent(variantId)}&added=1`,
+        { 'Set-Cookie': checkoutCookie(checkout) }
+      );
+      return;
+    }
+
+    if (existing && action === 'update') {
+      this.store.updateLine(existing, form.get('lineId') ?? '', Number.isFinite(quantity) ? quantity : 0);
+    } else if (existing && action === 'remove') {
+      this.store.removeLine(existing, form.get('lineId') ?? '');
+    }
+    redirect(ctx.res, `/${channel.slug}/cart`);
+  }
+
+  private async handleCheckout(ctx: RequestContext, segments: string[]): Promise<void> {
+    const { req, res, url } = ctx;
+    const user = this.userFor(ctx);
+
+    if (segments[0] === 'complete' && req.method === 'POST') {
+      const form = await readForm(req);
+      const checkout = this.store.getCheckout(form.get('checkoutId') ?? undefined);
+      const channel = checkout ? findChannel(checkout.channel) : undefined;
+      if (!checkout || !channel || checkout.lines.length === 0) {
+        sendHtml(res, 400, renderCheckoutPage(DEFAULT_CHANNEL, undefined, user));
+        return;
+      }
+
+      // Validate like the storefront does before paying: contact, addresses, delivery and gateway
+      // Signed-in customers use their account email and may pick a saved shipping address
+      const errors: FormError[] = [];
+      const email = user?.email ?? (form.get('email') ?? '').trim();
+      if (!/^[^@\s]+@[^@\s]+$/.test(email)) {
+        errors.push({ field: 'email', message: 'Email: enter a valid email address' });
+      }
+      checkout.email = email || checkout.email;
+      const savedAddress = user?.addresses[Number(form.get('shippingAddressId') ?? 'new')];
+      checkout.shippingAddress = savedAddress
+        ? { ...savedAddress }
+        : readAddress(form, 'shippingAddress', 'Shipping address', errors);
+      checkout.billingAddress = form.has('billingSameAsShipping')
+        ? checkout.shippingAddress
+        : readAddress(form, 'billingAddress', 'Billing address', errors);
+      const deliveryMethod = findDeliveryMethod(form.get('deliveryMethod') ?? '');
+      checkout.deliveryMethodId = deliveryMethod?.id ?? null;
+      if (!deliveryMethod) {
+        errors.push({ field: 'deliveryMethod', message: 'Delivery method: choose a delivery method' });
+      }
+      if (form.get('paymentGateway') !== DUMMY_GATEWAY.id) {
+        errors.push({ field: 'paymentGateway', message: 'Payment: choose a payment method' });
+      }
+
+      if (errors.length > 0) {
+        sendHtml(res, 400, renderCheckoutPage(channel, checkout, user, errors));
+        return;
+      }
+
+      const order = this.store.completeCheckout(checkout, channel, DUMMY_GATEWAY.id);
+      redirect(res, `/checkout?order=${order.id}`, {
+        'Set-Cookie': `${checkoutCookieName(channel.slug)}=; Path=/; Max-Age=0`,
+      });
+      return;
+    }
+
+    if (segments.length > 0 || req.method !== 'GET') {
+      sendHtml(res, 404, renderNotFound(DEFAULT_CHANNEL));
+      return;
+    }
+
+    const order = this.store.getOrder(url.searchParams.get('order') ?? undefined);
+    if (order) {
+      sendHtml(res, 200, renderOrderConfirmation(findChannel(order.channel) ?? DEFAULT_CHANNEL, order, user));
+      return;
+    }
+
+    // Checkout is addressed by ID; fall back to the default channel's cookie like the storefront does
+    const checkout = this.store.getCheckout(url.searchParams.get('checkout') ?? undefined)
+      ?? this.checkoutFor(ctx, DEFAULT_CHANNEL.slug);
+    const channel = (checkout && findChannel(checkout.channel)) || DEFAULT_CHANNEL;
+    sendHtml(res, 200, renderCheckoutPage(channel, checkout, user));
+  }
+}
+
+/**
+ * Start an offline storefront on the given port
+ */
+export async function startOfflineStorefront(options: OfflineStorefrontOptions): Promise<RunningOfflineStorefront> {
+  const server = new OfflineStorefrontServer();
+  const url = await server.listen(options);
+  return { url, store: server.store, close: () => server.close() };
+}
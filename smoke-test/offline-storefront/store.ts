@@ -0,0 +1,195 @@
+import { randomUUID } from 'crypto';
+import { Address, FixtureChannel, FixtureUser, channelPrice, findDeliveryMethod, findUser, findVariant } from './catalog';
+
+/**
+ * In-memory checkout and order state for the offline storefront
+ * State lives for the lifetime of the server, i.e. one Playwright run
+ */
+
+export interface CheckoutLine {
+  id: string;
+  variantId: string;
+  quantity: number;
+}
+
+export interface Checkout {
+  id: string;
+  channel: string;
+  email: string | null;
+  lines: CheckoutLine[];
+  shippingAddress: Address | null;
+  billingAddress: Address | null;
+  deliveryMethodId: string | null;
+}
+
+export interface Order {
+  id: string;
+  number: string;
+  channel: string;
+  email: string | null;
+  lines: CheckoutLine[];
+  shippingAddress: Address | null;
+  billingAddress: Address | null;
+  deliveryMethodId: string | null;
+  paymentGateway: string | null;
+  total: number;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+export class OfflineStore {
+  private readonly checkouts = new Map<string, Checkout>();
+  private readonly orders = new Map<string, Order>();
+  /** Session token -> user email */
+  private readonly sessions = new Map<string, string>();
+  private nextOrderNumber = 1001;
+
+  createCheckout(channel: string): Checkout {
+    const checkout: Checkout = {
+      id: randomUUID(),
+      channel,
+      email: null,
+      lines: [],
+      shippingAddress: null,
+      billingAddress: null,
+      deliveryMethodId: null,
+    };
+    this.checkouts.set(checkout.id, checkout);
+    return checkout;
+  }
+
+  getCheckout(id: string | undefined): Checkout | undefined {
+    return id ? this.checkouts.get(id) : undefined;
+  }
+
+  /**
+   * Add a variant to a checkout, merging with an existing line for the same variant
+   */
+  addLine(checkout: Checkout, variantId: string, quantity: number): void {
+    if (!findVariant(variantId)) {
+      throw new Error(`Unknown variant: ${variantId}`);
+    }
+
+    const existing = checkout.lines.find(line => line.variantId === variantId);
+    if (existing) {
+      existing.quantity += quantity;
+    } else {
+      checkout.lines.push({ id: randomUUID(), variantId, quantity });
+    }
+  }
+
+  /**
+   * Set the quantity of a line; zero or less removes it
+   */
+  updateLine(checkout: Checkout, lineId: string, quantity: number): void {
+    if (quantity <= 0) {
+      this.removeLine(checkout, lineId);
+      return;
+    }
+
+    const line = checkout.lines.find(candidate => candidate.id === lineId);
+    if (line) {
+      line.quantity = quantity;
+    }
+  }
+
+  removeLine(checkout: Checkout, lineId: string): void {
+    checkout.lines = checkout.lines.filter(line => line.id !== lineId);
+  }
+
+  /**
+   * Turn a checkout into an order and forget the checkout
+   */
+  completeCheckout(checkout: Checkout, channel: FixtureChannel, paymentGateway: string | null = null): Order {
+    const order: Order = {
+      id: randomUUID(),
+      number: String(this.nextOrderNumber++),
+      channel: checkout.channel,
+      email: checkout.email,
+      lines: checkout.lines.map(line => ({ ...line })),
+      shippingAddress: checkout.shippingAddress,
+      billingAddress: checkout.billingAddress,
+      deliveryMethodId: checkout.deliveryMethodId,
+      paymentGateway,
+      total: checkoutTotal(checkout, channel),
+      createdAt: new Date().toISOString(),
+    };
+
+    this.orders.set(order.id, order);
+    this.checkouts.delete(checkout.id);
+    return order;
+  }
+
+  getOrder(id: string | undefined): Order | undefined {
+    return id ? this.orders.get(id) : undefined;
+  }
+
+  /**
+   * Orders placed with the given email, newest first
+   */
+  ordersFor(email: string): Order[] {
+    return [...this.orders.values()]
+      .filter(order => order.email?.toLowerCase() === email.toLowerCase())
+      .sort((a, b) => Number(b.number) - Number(a.number));
+  }
+
+  /**
+   * Check credentials and open a session; undefined when they don't match a fixture user
+   */
+  login(email: string, password: string): string | undefined {
+    const user = findUser(email);
+    if (!user || user.password !== password) {
+      return undefined;
+    }
+
+    const token = randomUUID();
+    this.sessions.set(token, user.email);
+    return token;
+  }
+
+  logout(token: string | undefined): void {
+    if (token) {
+      this.sessions.delete(token);
+    }
+  }
+
+  getSessionUser(token: string | undefined): FixtureUser | undefined {
+    const email = token ? this.sessions.get(token) : undefined;
+    return email ? findUser(email) : undefined;
+  }
+}
+
+export function checkoutQuantity(checkout: Checkout | undefined): number {
+  return checkout ? checkout.lines.reduce((sum, line) => sum + line.quantity, 0) : 0;
+}
+
+export function lineTotal(line: CheckoutLine, channel: FixtureChannel): number {
+  const match = findVariant(line.variantId);
+  return match ? Math.round(channelPrice(match.variant, channel) * line.quantity * 100) / 100 : 0;
+}
+
+export function shippingPrice(checkout: Checkout, channel: FixtureChannel): number {
+  const method = checkout.deliveryMethodId ? findDeliveryMethod(checkout.deliveryMethodId) : undefined;
+  return method ? channelPrice(method, channel) : 0;
+}
+
+export function checkoutSubtotal(checkout: Checkout, channel: FixtureChannel): number {
+  return Math.round(checkout.lines.reduce((sum, line) => sum + lineTotal(line, channel), 0) * 100) / 100;
+}
+
+/**
+ * Lines plus shipping once a delivery method has been chosen; prices include tax
+ */
+export function checkoutTotal(checkout: Checkout, channel: FixtureChannel): number {
+  return Math.round((checkoutSubtotal(checkout, channel) + shippingPrice(checkout, channel)) * 100) / 100;
+}
+
+/** Cookie holding the offline storefront's session token */
+export const SESSION_COOKIE = 'offline-session';
+
+/**
+ * Cookie name used by the Saleor storefront to remember the checkout per channel
+ */
+export function checkoutCookieName(channel: string): string {
+  return `checkoutId-${channel}`;
+}
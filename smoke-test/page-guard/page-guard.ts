@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import { BrowserContext, Page, Response } from '@playwright/test';
+
+/**
+ * Page guard: records browser-side problems that don't break the DOM
+ * Console errors, uncaught page errors, failed requests, HTTP 4xx/5xx responses and
+ * GraphQL responses carrying `errors` are collected for every page in a context and
+ * matched against an allowlist of known, accepted problems.
+ */
+
+export type GuardEventKind = 'console' | 'pageerror' | 'requestfailed' | 'http' | 'graphql';
+
+export interface GuardEvent {
+  kind: GuardEventKind;
+  message: string;
+  url: string;
+  /** Reason from the matching allowlist entry; absent for unexpected events */
+  allowedBy?: string;
+}
+
+export interface AllowlistEntry {
+  /** Only match events of this kind; matches every kind when omitted */
+  kind?: GuardEventKind;
+  /** Regular expression tested against the event message and URL */
+  pattern: string;
+  /** Why the problem is accepted; shown in the report */
+  reason: string;
+}
+
+/**
+ * Load an allowlist file; a missing file means nothing is allowed
+ */
+export function loadAllowlist(file: string): AllowlistEntry[] {
+  if (!fs.existsSync(file)) {
+    return [];
+  }
+
+  const entries = JSON.parse(fs.readFileSync(file, 'utf-8')) as AllowlistEntry[];
+  for (const entry of entries) {
+    if (!entry.pattern || !entry.reason) {
+      throw new Error(`${file}: every allowlist entry needs a pattern and a reason, got ${JSON.stringify(entry)}`);
+    }
+  }
+  return entries;
+}
+
+export class PageGuard {
+  readonly events: GuardEvent[] = [];
+  private readonly pending: Promise<void>[] = [];
+  private readonly allowlist: Array<AllowlistEntry & { regex: RegExp }>;
+
+  constructor(allowlist: AllowlistEntry[], private readonly apiURL: string) {
+    this.allowlist = allowlist.map(entry => ({ ...entry, regex: new RegExp(entry.pattern) }));
+  }
+
+  /**
+   * Start recording every page opened in the context, including ones already open
+   */
+  attach(context: BrowserContext): void {
+    context.pages().forEach(page => this.watchPage(page));
+    context.on('page', page => this.watchPage(page));
+    context.on('requestfailed', request => {
+      this.record('requestfailed', request.failure()?.errorText ?? 'Request failed', request.url());
+    });
+    context.on('response', response => this.inspectResponse(response));
+  }
+
+  /**
+   * Wait for in-flight response inspection to finish
+   */
+  async settle(): Promise<void> {
+    await Promise.allSettled(this.pending);
+  }
+
+  unexpected(): GuardEvent[] {
+    return this.events.filter(event => !event.allowedBy);
+  }
+
+  private watchPage(page: Page): void {
+    page.on('console', message => {
+      if (message.type() === 'error') {
+        this.record('console', message.text(), message.location().url || page.url());
+      }
+    });
+    page.on('pageerror', error => this.record('pageerror', error.message, page.url()));
+  }
+
+  private inspectResponse(response: Response): void {
+    const url = response.url();
+    if (response.status() >= 400) {
+      this.record('http', `HTTP ${response.status()} ${response.statusText()}`.trim(), url);
+      return;
+    }
+
+    const request = response.request();
+    if (request.method() !== 'POST' || !url.startsWith(this.apiURL.replace(/\/+$/, ''))) {
+      return;
+    }
+
+    this.pending.push(response.json().then(
+      (body: { errors?: Array<{ message?: string }> } | null) => {
+        const operationName = (request.postDataJSON() as { operationName?: string } | null)?.operationName ?? 'anonymous';
+        for (const error of body?.errors ?? []) {
+          this.record('graphql', `${operationName}: ${error.message ?? 'GraphQL error'}`, url);
+        }
+      },
+      // Bodies of responses from pages that already navigated away are gone; nothing to inspect
+      () => undefined
+    ));
+  }
+
+  private record(kind: GuardEventKind, message: string, url: string): void {
+    const match = this.allowlist.find(entry =>
+      (!entry.kind || entry.kind === kind) && (entry.regex.test(message) || entry.regex.test(url))
+    );
+    this.events.push({ kind, message, url, ...(match ? { allowedBy: match.reason } : {}) });
+  }
+}
+
+export function formatGuardEvent(event: GuardEvent): string {
+  return `[${event.kind}] ${event.message}${event.url ? ` (${event.url})` : ''}`;
+}
@@ -0,0 +1,73 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { SmokeTestConfig } from '../config/test-config';
+
+/**
+ * Account Page Object for Saleor Storefront
+ * Represents the signed-in customer's account overview and its navigation
+ */
+export class AccountPage extends BasePage {
+  // Locators
+  private readonly accountTitle: Locator;
+  private readonly accountName: Locator;
+  private readonly accountEmail: Locator;
+  private readonly ordersLink: Locator;
+  private readonly addressesLink: Locator;
+
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig) {
+    super(page, channel, config);
+
+    // Initialize locators from the selector registry
+    this.accountTitle = this.locate('account.title');
+    this.accountName = this.locate('account.name');
+    this.accountEmail = this.locate('account.email');
+    this.ordersLink = this.locate('account.ordersLink');
+    this.addressesLink = this.locate('account.addressesLink');
+  }
+
+  /**
+   * Navigate to the account overview
+   */
+  async goto(): Promise<void> {
+    await this.gotoPath('/account');
+  }
+
+  /**
+   * Verify account page is loaded
+   */
+  async verifyAccountPageLoaded(): Promise<void> {
+    await this.verifyChannelUrl('/account');
+    await expect(this.accountTitle.first()).toBeVisible();
+    await this.recordSelectorHealth('account');
+  }
+
+  /**
+   * Verify the profile belongs to the given customer
+   */
+  async verifyProfile(email: string): Promise<void> {
+    await expect(this.accountEmail.first()).toHaveText(email, { ignoreCase: true });
+  }
+
+  /**
+   * Get the customer's name as shown on the profile
+   */
+  async getCustomerName(): Promise<string> {
+    return (await this.accountName.first().textContent())?.trim() ?? '';
+  }
+
+  /**
+   * Open the order history from the account navigation
+   */
+  async openOrderHistory(): Promise<void> {
+    await this.safeClick(this.ordersLink.first());
+    await this.verifyChannelUrl('/account/orders');
+  }
+
+  /**
+   * Open the address book from the account navigation
+   */
+  async openAddressBook(): Promise<void> {
+    await this.safeClick(this.addressesLink.first());
+    await this.verifyChannelUrl('/account/addresses');
+  }
+}
@@ -0,0 +1,55 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { SmokeTestConfig } from '../config/test-config';
+
+/**
+ * Address Book Page Object for Saleor Storefront
+ * Represents the customer's saved addresses
+ */
+export class AddressBookPage extends BasePage {
+  // Locators
+  private readonly addressBookTitle: Locator;
+  private readonly addressCards: Locator;
+  private readonly emptyMessage: Locator;
+
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig) {
+    super(page, channel, config);
+
+    // Initialize locators from the selector registry
+    this.addressBookTitle = this.locate('addressBook.title');
+    this.addressCards = this.locate('addressBook.addressCard');
+    this.emptyMessage = this.locate('addressBook.empty');
+  }
+
+  /**
+   * Navigate to the address book
+   */
+  async goto(): Promise<void> {
+    await this.gotoPath('/account/addresses');
+  }
+
+  /**
+   * Verify address book page is loaded
+   */
+  async verifyAddressBookLoaded(): Promise<void> {
+    await this.verifyChannelUrl('/account/addresses');
+    await expect(this.addressBookTitle.first()).toBeVisible();
+    await this.recordSelectorHealth('addressBook');
+  }
+
+  /**
+   * Get the saved addresses as displayed, one string per address
+   */
+  async getAddresses(): Promise<string[]> {
+    const texts = await this.addressCards.allTextContents();
+    return texts.map(text => text.replace(/\s+/g, ' ').trim());
+  }
+
+  /**
+   * Verify at least one saved address is listed
+   */
+  async verifyHasAddresses(): Promise<void> {
+    expect(await this.elementExists(this.emptyMessage.first())).toBe(false);
+    await expect(this.addressCards.first()).toBeVisible();
+  }
+}
@@ -0,0 +1,104 @@
+import { Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { SmokeTestConfig } from '../config/test-config';
+import { AddressInput } from '../api/types';
+import { SelectorKey, SelectorRegistry } from '../selectors/registry';
+
+/**
+ * Address fields in fill order with their autocomplete tokens; country first, as the
+ * storefront re-renders country-dependent fields (state dropdown, postal code) when it changes
+ */
+const ADDRESS_FIELDS: Array<{ field: keyof AddressInput; autocomplete: string; optional?: boolean }> = [
+  { field: 'country', autocomplete: 'country' },
+  { field: 'firstName', autocomplete: 'given-name' },
+  { field: 'lastName', autocomplete: 'family-name' },
+  { field: 'streetAddress1', autocomplete: 'address-line1' },
+  { field: 'city', autocomplete: 'address-level2' },
+  { field: 'postalCode', autocomplete: 'postal-code' },
+  { field: 'countryArea', autocomplete: 'address-level1', optional: true },
+  { field: 'phone', autocomplete: 'tel', optional: true },
+];
+
+/**
+ * Address form component
+ * Scoped to the section holding the form (e.g. checkout.shippingAddress), so shipping
+ * and billing addresses are filled by the same code; the page object owning the form provides the page
+ */
+export class AddressForm {
+  constructor(
+    private readonly owner: BasePage,
+    private readonly section: SelectorKey,
+    private readonly selectors: SelectorRegistry,
+    private readonly config: SmokeTestConfig,
+  ) {}
+
+  /**
+   * Fill the form; optional fields the country's form doesn't show are skipped
+   */
+  async fill(address: AddressInput): Promise<void> {
+    const root = await this.root();
+
+    for (const { field, autocomplete, optional } of ADDRESS_FIELDS) {
+      const value = address[field];
+      if (value === undefined) {
+        continue;
+      }
+
+      const input = this.field(root, field, autocomplete);
+      if (optional && !await this.owner.elementExists(input)) {
+        continue;
+      }
+      await this.setValue(input, value);
+
+      if (field === 'country') {
+        // Wait for the country-dependent fields to render before filling them
+        await this.field(root, 'postalCode', 'postal-code').waitFor({ state: 'visible', timeout: this.config.timeouts.action });
+      }
+    }
+  }
+
+  /**
+   * Check or uncheck "use shipping address as billing address", when the storefront offers it
+   */
+  async useSameAddress(same: boolean): Promise<void> {
+    const checkbox = this.selectors.locator(this.owner.page, 'checkout.useSameAddress').first();
+    if (await this.owner.elementExists(checkbox)) {
+      await checkbox.setChecked(same);
+    }
+  }
+
+  /**
+   * Validation messages shown next to the fields of this form
+   */
+  async fieldErrors(): Promise<string[]> {
+    const errors = this.selectors.locator(await this.root(), 'checkout.addressFieldError');
+    return (await errors.allTextContents()).map(error => error.trim()).filter(Boolean);
+  }
+
+  /**
+   * Verify the storefront accepted the address
+   */
+  async verifyNoFieldErrors(): Promise<void> {
+    expect(await this.fieldErrors(), `Address form ${this.section} reported errors`).toEqual([]);
+  }
+
+  private async root(): Promise<Locator> {
+    return (await this.selectors.resolve(this.owner.page, this.section)).first();
+  }
+
+  private field(root: Locator, field: keyof AddressInput, autocomplete: string): Locator {
+    return this.selectors.locator(root, 'checkout.addressField', { field, autocomplete }).first();
+  }
+
+  /**
+   * Fill a text input, or pick an option by value or label (country and state dropdowns)
+   */
+  private async setValue(input: Locator, value: string): Promise<void> {
+    await input.waitFor({ state: 'visible', timeout: this.config.timeouts.action });
+    if (await input.evaluate(element => element.tagName === 'SELECT')) {
+      await input.selectOption(value);
+    } else {
+      await input.fill(value);
+    }
+  }
+}
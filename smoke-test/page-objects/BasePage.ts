@@ -1,4 +1,19 @@
 import { Page, Locator, expect } from '@playwright/test';
+import { SmokeTestConfig, getConfig } from '../config/test-config';
+import { SelectorNamespace, probeSelectors, recordSelectorProbes } from '../selectors/health';
+import { SelectorKey, SelectorParams, SelectorRegistry, getSelectorRegistry } from '../selectors/registry';
+import { Money } from '../utils/money';
+
+/**
+ * Options for building storefront URLs
+ */
+export interface StorefrontUrlOptions {
+  /**
+   * Whether the route lives under /[channel]/ (default: true)
+   * The Saleor storefront serves checkout outside the channel segment
+   */
+  channelScoped?: boolean;
+}
 
 /**
  * Base Page Object containing common functionality
@@ -6,9 +21,38 @@ import { Page, Locator, expect } from '@playwright/test';
  */
 export abstract class BasePage {
   public readonly page: Page;
+  public readonly channel: string;
+  protected readonly config: SmokeTestConfig;
+  protected readonly selectors: SelectorRegistry;
   
-  constructor(page: Page) {
+  constructor(page: Page, channel?: string, config: SmokeTestConfig = getConfig()) {
     this.page = page;
+    this.config = config;
+    this.channel = channel ?? config.defaultChannel;
+    this.selectors = getSelectorRegistry(config.selectorProfile);
+  }
+
+  /**
+   * Locator for a logical element from the selector registry, e.g. locate('cart.lineItem')
+   */
+  protected locate(key: SelectorKey, params: SelectorParams = {}): Locator {
+    return this.selectors.locator(this.page, key, params);
+  }
+
+  /**
+   * Locator for the first alternative of an element that matches the current page
+   */
+  protected async resolve(key: SelectorKey, params: SelectorParams = {}): Promise<Locator> {
+    return this.selectors.resolve(this.page, key, params);
+  }
+
+  /**
+   * Record which selector alternative matched for each element of this page (see selectors/health.ts)
+   */
+  protected async recordSelectorHealth(namespace: SelectorNamespace): Promise<void> {
+    if (this.config.selectorHealth) {
+      await recordSelectorProbes(await probeSelectors(this.page, this.selectors, namespace));
+    }
   }
 
   /**
@@ -37,7 +81,7 @@ export abstract class BasePage {
   /**
    * Wait for element to be visible - optimized timeout
    */
-  async waitForElement(locator: Locator, timeout = 5000): Promise<void> {
+  async waitForElement(locator: Locator, timeout = this.config.timeouts.action): Promise<void> {
     await locator.waitFor({ state: 'visible', timeout });
   }
 
@@ -62,13 +106,21 @@ export abstract class BasePage {
    */
   async elementExists(locator: Locator): Promise<boolean> {
     try {
-      await locator.waitFor({ state: 'attached', timeout: 2000 });
+      await locator.waitFor({ state: 'attached', timeout: this.config.timeouts.element });
       return true;
     } catch {
       return false;
     }
   }
 
+  /**
+   * Read the price an element shows; fails when the element is missing or its text is not a price
+   */
+  async readMoney(locator: Locator): Promise<Money> {
+    await expect(locator.first()).toBeVisible();
+    return Money.parse((await locator.first().textContent())?.trim() ?? '');
+  }
+
   /**
    * Get page title
    */
@@ -89,4 +141,56 @@ export abstract class BasePage {
   async verifyPageLoaded(urlPattern: RegExp): Promise<void> {
     await expect(this.page).toHaveURL(urlPattern);
   }
+
+  /**
+   * Build a storefront path, prefixed with the channel for channel-scoped routes
+   * e.g. buildUrl('/cart') -> '/default-channel/cart'
+   */
+  buildUrl(path = '/', options: StorefrontUrlOptions = {}): string {
+    const normalisedPath = path === '/' ? '' : `/${path.replace(/^\/+/, '')}`;
+    if (options.channelScoped === false) {
+      return normalisedPath || '/';
+    }
+    return `/${encodeURIComponent(this.channel)}${normalisedPath}`;
+  }
+
+  /**
+   * Build a RegExp matching an absolute storefront URL for the given path
+   * A trailing '/' in the path matches any sub-path (e.g. '/products/')
+   */
+  urlPattern(path = '/', options: StorefrontUrlOptions = {}): RegExp {
+    const expectedPath = this.buildUrl(path, options);
+    const prefix = escapeRegExp(`${this.config.baseURL}${expectedPath === '/' ? '' : expectedPath}`);
+    const suffix = expectedPath.endsWith('/') && expectedPath !== '/' ? '.+' : '(?=[/?#]|$)';
+    return new RegExp(`^${prefix}${suffix}`);
+  }
+
+  /**
+   * Navigate to a storefront path within the current channel
+   */
+  async gotoPath(path = '/', options: StorefrontUrlOptions = {}): Promise<void> {
+    await this.page.goto(this.buildUrl(path, options));
+    await this.waitForPageLoad();
+  }
+
+  /**
+   * Verify the current URL is the given path within the current channel
+   */
+  async verifyChannelUrl(path = '/', options: StorefrontUrlOptions = {}): Promise<void> {
+    await expect(this.page).toHaveURL(this.urlPattern(path, options));
+  }
+
+  /**
+   * Verify the page is served from the configured storefront
+   */
+  async verifyOnStorefront(): Promise<void> {
+    await expect(this.page).toHaveURL(new RegExp(`^${escapeRegExp(this.config.baseURL)}(/|$)`));
+  }
+}
+
+/**
+ * Escape a literal string for use inside a RegExp
+ */
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
@@ -1,5 +1,17 @@
 import { Page, Locator, expect } from '@playwright/test';
 import { BasePage } from './BasePage';
+import { SmokeTestConfig } from '../config/test-config';
+import { Money } from '../utils/money';
+
+/**
+ * A cart line as displayed: unit price, quantity and line total
+ */
+export interface CartLine {
+  name: string;
+  quantity: number;
+  unitPrice: Money;
+  total: Money;
+}
 
 /**
  * Cart Page Object for Saleor Storefront
@@ -12,38 +24,37 @@ export class CartPage extends BasePage {
   private readonly cartItemName: Locator;
   private readonly cartItemPrice: Locator;
   private readonly cartItemQuantity: Locator;
+  private readonly cartSubtotal: Locator;
   private readonly cartTotal: Locator;
   private readonly checkoutButton: Locator;
   private readonly continueShoppingButton: Locator;
   private readonly emptyCartMessage: Locator;
   private readonly removeItemButton: Locator;
-  private readonly updateQuantityButton: Locator;
   private readonly cartSummary: Locator;
 
-  constructor(page: Page) {
-    super(page);
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig) {
+    super(page, channel, config);
     
-    // Initialize locators with multiple fallback selectors
-    this.cartTitle = page.locator('[data-testid="cart-title"], .cart-title, h1:has-text("Cart"), h1:has-text("Shopping")');
-    this.cartItems = page.locator('[data-testid="cart-item"], .cart-item, .cart-line-item');
-    this.cartItemName = page.locator('[data-testid="cart-item-name"], .cart-item-name, .item-name');
-    this.cartItemPrice = page.locator('[data-testid="cart-item-price"], .cart-item-price, .item-price');
-    this.cartItemQuantity = page.locator('[data-testid="cart-item-quantity"], .cart-item-quantity, .quantity input');
-    this.cartTotal = page.locator('[data-testid="cart-total"], .cart-total, .total');
-    this.checkoutButton = page.locator('[data-testid="checkout"], .checkout-button, button:has-text("Checkout")');
-    this.continueShoppingButton = page.locator('[data-testid="continue-shopping"], .continue-shopping, button:has-text("Continue")');
-    this.emptyCartMessage = page.locator('[data-testid="empty-cart"], .empty-cart, :has-text("empty"), :has-text("no items")');
-    this.removeItemButton = page.locator('[data-testid="remove-item"], .remove-item, button:has-text("Remove")');
-    this.updateQuantityButton = page.locator('[data-testid="update-quantity"], .update-quantity, button:has-text("Update")');
-    this.cartSummary = page.locator('[data-testid="cart-summary"], .cart-summary, .summary');
+    // Initialize locators from the selector registry
+    this.cartTitle = this.locate('cart.title');
+    this.cartItems = this.locate('cart.lineItem');
+    this.cartItemName = this.locate('cart.lineItemName');
+    this.cartItemPrice = this.locate('cart.lineItemPrice');
+    this.cartItemQuantity = this.locate('cart.lineItemQuantity');
+    this.cartSubtotal = this.locate('cart.subtotal');
+    this.cartTotal = this.locate('cart.total');
+    this.checkoutButton = this.locate('cart.checkout');
+    this.continueShoppingButton = this.locate('cart.continueShopping');
+    this.emptyCartMessage = this.locate('cart.empty');
+    this.removeItemButton = this.locate('cart.removeItem');
+    this.cartSummary = this.locate('cart.summary');
   }
 
   /**
    * Navigate to cart page
    */
   async goto(): Promise<void> {
-    await this.page.goto('/cart');
-    await this.waitForPageLoad();
+    await this.gotoPath('/cart');
   }
 
   /**
@@ -51,10 +62,11 @@ export class CartPage extends BasePage {
    */
   async verifyCartPageLoaded(): Promise<void> {
     // Verify URL
-    await expect(this.page).toHaveURL(/.*\/cart.*/);
+    await this.verifyChannelUrl('/cart');
     
     // Wait for page content to load
     await this.waitForPageLoad();
+    await this.recordSelectorHealth('cart');
   }
 
   /**
@@ -73,7 +85,7 @@ export class CartPage extends BasePage {
    * Verify specific item is in cart
    */
   async verifyItemInCart(itemName: string): Promise<void> {
-    const itemLocator = this.page.locator(`[data-testid="cart-item"]:has-text("${itemName}"), .cart-item:has-text("${itemName}")`);
+    const itemLocator = this.cartItems.filter({ hasText: itemName }).first();
     await expect(itemLocator).toBeVisible();
   }
 
@@ -88,6 +100,14 @@ export class CartPage extends BasePage {
     }
   }
 
+  /**
+   * Verify the empty cart message is shown and no lines are left
+   */
+  async verifyCartEmpty(): Promise<void> {
+    await expect((await this.resolve('cart.empty')).first()).toBeVisible();
+    await expect(this.cartItems).toHaveCount(0);
+  }
+
   /**
    * Check if cart is empty
    */
@@ -111,7 +131,7 @@ export class CartPage extends BasePage {
     
     for (let i = 0; i < itemCount; i++) {
       const item = this.cartItems.nth(i);
-      const nameElement = item.locator('[data-testid="cart-item-name"], .cart-item-name, .item-name, h3, h4').first();
+      const nameElement = this.selectors.locator(item, 'cart.lineItemName').first();
       
       if (await this.elementExists(nameElement)) {
         const name = await nameElement.textContent();
@@ -125,14 +145,51 @@ export class CartPage extends BasePage {
   }
 
   /**
-   * Get total price
+   * Get the cart total
    */
-  async getTotalPrice(): Promise<string> {
-    if (await this.elementExists(this.cartTotal)) {
-      const total = await this.cartTotal.textContent();
-      return total?.trim() || '';
+  async getTotalPrice(): Promise<Money> {
+    return this.readMoney(this.cartTotal);
+  }
+
+  /**
+   * Get the sum of the line totals as the cart shows it
+   */
+  async getSubtotal(): Promise<Money> {
+    return this.readMoney(this.cartSubtotal);
+  }
+
+  /**
+   * Read every cart line with its unit price, quantity and line total
+   */
+  async getLines(): Promise<CartLine[]> {
+    const lines: CartLine[] = [];
+    for (const item of await this.cartItems.all()) {
+      const name = await this.selectors.resolve(item, 'cart.lineItemName');
+      const quantity = await this.selectors.resolve(item, 'cart.lineItemQuantity');
+      lines.push({
+        name: (await name.first().textContent())?.trim() ?? '',
+        quantity: Number(await quantity.first().inputValue()),
+        unitPrice: await this.readMoney(await this.selectors.resolve(item, 'cart.lineItemPrice')),
+        total: await this.readMoney(await this.selectors.resolve(item, 'cart.lineItemTotal')),
+      });
     }
-    return '';
+    return lines;
+  }
+
+  /**
+   * Verify each line total is its unit price times its quantity and the line totals add up to the subtotal
+   */
+  async verifyCartArithmetic(): Promise<void> {
+    const lines = await this.getLines();
+    expect(lines.length, 'cart should have lines to add up').toBeGreaterThan(0);
+    for (const line of lines) {
+      expect(line.total.toString(), `${line.name}: ${line.unitPrice} × ${line.quantity}`)
+        .toBe(line.unitPrice.times(line.quantity).toString());
+    }
+
+    const subtotal = await this.getSubtotal();
+    expect(subtotal.toString(), 'line totals should add up to the subtotal')
+      .toBe(Money.sum(lines.map(line => line.total), subtotal.currency).toString());
   }
 
   /**
@@ -160,28 +217,44 @@ export class CartPage extends BasePage {
   }
 
   /**
-   * Remove item from cart
+   * Remove the first line from the cart
    */
   async removeFirstItem(): Promise<void> {
-    if (await this.elementExists(this.removeItemButton)) {
-      await this.safeClick(this.removeItemButton.first());
-      await this.waitForPageLoad();
-    }
+    await expect(this.removeItemButton.first()).toBeVisible();
+    await this.removeItem(0);
   }
 
   /**
-   * Update item quantity
+   * Remove a cart line by position and wait for the line to be gone
+   */
+  async removeItem(itemIndex: number): Promise<void> {
+    const itemCount = await this.cartItems.count();
+    const removeButton = await this.selectors.resolve(this.cartItems.nth(itemIndex), 'cart.removeItem');
+    await this.safeClick(removeButton.first());
+    await this.waitForPageLoad();
+    await expect(this.cartItems).toHaveCount(itemCount - 1);
+  }
+
+  /**
+   * Update the quantity of a cart line by position
+   * Uses the line's own update button when the storefront has one
    */
   async updateItemQuantity(itemIndex: number, quantity: number): Promise<void> {
-    const quantityInput = this.cartItemQuantity.nth(itemIndex);
-    if (await this.elementExists(quantityInput)) {
-      await this.safeFill(quantityInput, quantity.toString());
-      
-      // Click update button if it exists
-      if (await this.elementExists(this.updateQuantityButton)) {
-        await this.safeClick(this.updateQuantityButton);
-        await this.waitForPageLoad();
-      }
+    const item = this.cartItems.nth(itemIndex);
+    const quantityInput = (await this.selectors.resolve(item, 'cart.lineItemQuantity')).first();
+    await expect(quantityInput).toBeVisible();
+    await this.safeFill(quantityInput, quantity.toString());
+
+    const updateButton = await this.selectors.resolve(item, 'cart.updateQuantity');
+    if (await updateButton.count() > 0) {
+      await this.safeClick(updateButton.first());
+    } else {
+      await quantityInput.blur();
+    }
+    await this.waitForPageLoad();
+    // A quantity of zero removes the line on most storefronts
+    if (quantity > 0) {
+      await expect(this.cartItemQuantity.nth(itemIndex)).toHaveValue(quantity.toString());
     }
   }
 
@@ -0,0 +1,11 @@
+import { ProductListingPage } from './ProductListingPage';
+import { TEST_DATA } from '../utils/test-helpers';
+
+/**
+ * Category Page Object for Saleor Storefront
+ * Represents a category's product listing
+ */
+export class CategoryPage extends ProductListingPage {
+  protected readonly section = 'categories';
+  protected readonly defaultSlug = TEST_DATA.BROWSE.CATEGORY_SLUG;
+}
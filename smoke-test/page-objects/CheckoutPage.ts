@@ -1,11 +1,29 @@
 import { Page, Locator, expect } from '@playwright/test';
-import { BasePage } from './BasePage';
+import { BasePage, escapeRegExp } from './BasePage';
+import { AddressForm } from './AddressForm';
+import { SmokeTestConfig } from '../config/test-config';
+import { AddressInput } from '../api/types';
+import { Money } from '../utils/money';
+
+/**
+ * Amounts in the checkout's order summary
+ */
+export interface CheckoutSummary {
+  subtotal: Money;
+  shipping: Money;
+  tax: Money;
+  total: Money;
+}
 
 /**
  * Checkout Page Object for Saleor Storefront
  * Represents the checkout page
  */
 export class CheckoutPage extends BasePage {
+  // Components
+  public readonly shippingAddressForm: AddressForm;
+  public readonly billingAddressForm: AddressForm;
+
   // Locators
   private readonly checkoutTitle: Locator;
   private readonly loginSection: Locator;
@@ -19,37 +37,45 @@ export class CheckoutPage extends BasePage {
   private readonly deliveryMethodsSection: Locator;
   private readonly paymentSection: Locator;
   private readonly orderSummary: Locator;
+  private readonly summarySubtotal: Locator;
+  private readonly summaryShipping: Locator;
+  private readonly summaryTax: Locator;
+  private readonly summaryTotal: Locator;
   private readonly makePaymentButton: Locator;
-  private readonly orderConfirmation: Locator;
-  private readonly useSameAddressCheckbox: Locator;
 
-  constructor(page: Page) {
-    super(page);
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig) {
+    super(page, channel, config);
     
-    // Initialize locators with multiple fallback selectors
-    this.checkoutTitle = page.locator('[data-testid="checkout-title"], .checkout-title, h1:has-text("Checkout")');
-    this.loginSection = page.locator('[data-testid="login-section"], .login-section, .checkout-login');
-    this.signInLink = page.locator('[data-testid="sign-in"], .sign-in, a:has-text("Sign in"), button:has-text("Sign in")');
-    this.signOutLink = page.locator('[data-testid="sign-out"], .sign-out, a:has-text("Sign out"), button:has-text("Sign out")');
-    this.emailInput = page.locator('[data-testid="email"], input[type="email"], input[name="email"]');
-    this.passwordInput = page.locator('[data-testid="password"], input[type="password"], input[name="password"]');
-    this.loginButton = page.locator('[data-testid="login-button"], .login-button, button:has-text("Login"), button[type="submit"]');
-    this.shippingAddressSection = page.locator('[data-testid="shipping-address"], .shipping-address, :has-text("Shipping address")');
-    this.billingAddressSection = page.locator('[data-testid="billing-address"], .billing-address, :has-text("Billing address")');
-    this.deliveryMethodsSection = page.locator('[data-testid="delivery-methods"], .delivery-methods, :has-text("Delivery")');
-    this.paymentSection = page.locator('[data-testid="payment"], .payment-section, :has-text("Payment")');
-    this.orderSummary = page.locator('[data-testid="order-summary"], .order-summary, .summary');
-    this.makePaymentButton = page.locator('[data-testid="make-payment"], .make-payment, button:has-text("Make payment"), button:has-text("Place order")');
-    this.orderConfirmation = page.locator('[data-testid="order-confirmation"], .order-confirmation, :has-text("confirmed"), :has-text("Order")');
-    this.useSameAddressCheckbox = page.locator('[data-testid="use-same-address"], input[type="checkbox"]:near(:text("billing"))');
-  }
-
-  /**
-   * Navigate to checkout page
-   */
-  async goto(): Promise<void> {
-    await this.page.goto('/checkout');
-    await this.waitForPageLoad();
+    // Initialize locators from the selector registry
+    this.checkoutTitle = this.locate('checkout.title');
+    this.loginSection = this.locate('checkout.loginSection');
+    this.signInLink = this.locate('checkout.signIn');
+    this.signOutLink = this.locate('checkout.signOut');
+    this.emailInput = this.locate('checkout.email');
+    this.passwordInput = this.locate('checkout.password');
+    this.loginButton = this.locate('checkout.loginButton');
+    this.shippingAddressSection = this.locate('checkout.shippingAddress');
+    this.billingAddressSection = this.locate('checkout.billingAddress');
+    this.deliveryMethodsSection = this.locate('checkout.deliveryMethods');
+    this.paymentSection = this.locate('checkout.payment');
+    this.orderSummary = this.locate('checkout.orderSummary');
+    this.summarySubtotal = this.locate('checkout.subtotal');
+    this.summaryShipping = this.locate('checkout.shippingCost');
+    this.summaryTax = this.locate('checkout.tax');
+    this.summaryTotal = this.locate('checkout.total');
+    this.makePaymentButton = this.locate('checkout.makePayment');
+
+    this.shippingAddressForm = new AddressForm(this, 'checkout.shippingAddress', this.selectors, this.config);
+    this.billingAddressForm = new AddressForm(this, 'checkout.billingAddress', this.selectors, this.config);
+  }
+
+  /**
+   * Navigate to checkout page, optionally for a specific checkout ID
+   * Checkout is served outside the /[channel]/ segment; the checkout itself carries the channel
+   */
+  async goto(checkoutId?: string): Promise<void> {
+    const query = checkoutId ? `?checkout=${encodeURIComponent(checkoutId)}` : '';
+    await this.gotoPath(`/checkout${query}`, { channelScoped: false });
   }
 
   /**
@@ -57,10 +83,11 @@ export class CheckoutPage extends BasePage {
    */
   async verifyCheckoutPageLoaded(): Promise<void> {
     // Verify URL
-    await expect(this.page).toHaveURL(/.*\/checkout.*/);
+    await this.verifyChannelUrl('/checkout', { channelScoped: false });
     
     // Wait for page to fully load
     await this.waitForPageLoad();
+    await this.recordSelectorHealth('checkout');
   }
 
   /**
@@ -151,8 +178,33 @@ export class CheckoutPage extends BasePage {
    * Verify order summary contains item
    */
   async verifyOrderSummaryContainsItem(itemName: string): Promise<void> {
-    const summaryWithItem = this.orderSummary.locator(`:has-text("${itemName}")`);
-    await expect(summaryWithItem).toBeVisible();
+    await expect(this.orderSummary.getByText(itemName).first()).toBeVisible();
+  }
+
+  /**
+   * Read the order summary amounts; shipping and tax count as zero when the storefront does not show them
+   */
+  async getSummary(): Promise<CheckoutSummary> {
+    const subtotal = await this.readMoney(this.summarySubtotal);
+    const optional = async (locator: Locator): Promise<Money> =>
+      await locator.count() > 0 ? this.readMoney(locator) : Money.zero(subtotal.currency);
+
+    return {
+      subtotal,
+      shipping: await optional(this.summaryShipping),
+      tax: await optional(this.summaryTax),
+      total: await this.readMoney(this.summaryTotal),
+    };
+  }
+
+  /**
+   * Verify subtotal plus shipping and tax equals the total in the order summary
+   */
+  async verifySummaryArithmetic(): Promise<CheckoutSummary> {
+    const summary = await this.getSummary();
+    expect(summary.total.toString(), `${summary.subtotal} + ${summary.shipping} shipping + ${summary.tax} tax`)
+      .toBe(summary.subtotal.plus(summary.shipping).plus(summary.tax).toString());
+    return summary;
   }
 
   /**
@@ -171,14 +223,92 @@ export class CheckoutPage extends BasePage {
     await this.waitForPageLoad();
   }
 
+  /**
+   * Enter the contact email for a guest checkout
+   */
+  async fillEmail(email: string): Promise<void> {
+    await this.safeFill(this.emailInput.first(), email);
+  }
+
+  /**
+   * Fill the shipping address form
+   */
+  async fillShippingAddress(address: AddressInput): Promise<void> {
+    await this.shippingAddressForm.fill(address);
+  }
+
+  /**
+   * Ship to one of a signed-in customer's saved addresses (the first, default one by default)
+   */
+  async selectSavedShippingAddress(index = 0): Promise<void> {
+    const section = (await this.resolve('checkout.shippingAddress')).first();
+    await this.selectors.locator(section, 'checkout.savedAddress').nth(index).check();
+  }
+
+  /**
+   * Reuse the shipping address as billing address
+   */
+  async useShippingAddressForBilling(): Promise<void> {
+    await this.billingAddressForm.useSameAddress(true);
+  }
+
+  /**
+   * Fill a billing address that differs from the shipping address
+   */
+  async fillBillingAddress(address: AddressInput): Promise<void> {
+    await this.billingAddressForm.useSameAddress(false);
+    await this.billingAddressForm.fill(address);
+  }
+
+  /**
+   * Choose a delivery method by name, or the first one offered
+   */
+  async selectDeliveryMethod(name?: string): Promise<void> {
+    const section = (await this.resolve('checkout.deliveryMethods')).first();
+    const method = name
+      ? section.getByRole('radio', { name: new RegExp(escapeRegExp(name), 'i') })
+      : this.selectors.locator(section, 'checkout.deliveryMethod').first();
+    await method.check();
+  }
+
+  /**
+   * Choose a payment gateway by name
+   */
+  async selectPaymentGateway(name: string): Promise<void> {
+    const section = (await this.resolve('checkout.payment')).first();
+    await section.getByRole('radio', { name: new RegExp(escapeRegExp(name), 'i') }).check();
+  }
+
+  /**
+   * Pay with Saleor's dummy payment gateway, which always approves
+   */
+  async payWithDummyGateway(): Promise<void> {
+    await this.selectPaymentGateway('Dummy');
+    await this.clickMakePayment();
+  }
+
+  /**
+   * Validation errors shown by the checkout, if any
+   */
+  async getCheckoutErrors(): Promise<string[]> {
+    const errors = this.locate('checkout.errors');
+    if (!await this.elementExists(errors.first())) {
+      return [];
+    }
+    return (await errors.first().locator('li').allTextContents()).map(error => error.trim());
+  }
+
   /**
    * Verify order confirmation
    */
   async verifyOrderConfirmation(): Promise<void> {
-    await expect(this.orderConfirmation).toBeVisible();
+    expect(await this.getCheckoutErrors(), 'Checkout reported validation errors').toEqual([]);
+
+    const orderConfirmation = (await this.resolve('checkout.orderConfirmation')).first();
+    await expect(orderConfirmation).toBeVisible();
     
     // Check for common confirmation messages
-    const confirmationText = await this.orderConfirmation.textContent();
+    const confirmationText = await orderConfirmation.textContent();
     const hasConfirmationKeywords = confirmationText?.toLowerCase().includes('confirmed') || 
                                    confirmationText?.toLowerCase().includes('order') ||
                                    confirmationText?.toLowerCase().includes('success');
@@ -227,8 +357,13 @@ export class CheckoutPage extends BasePage {
    * Get order number from confirmation
    */
   async getOrderNumber(): Promise<string> {
-    const confirmationText = await this.orderConfirmation.textContent();
-    const orderMatch = confirmationText?.match(/Order #?(\w+)/i);
+    const orderNumber = this.locate('checkout.orderNumber').first();
+    if (await this.elementExists(orderNumber)) {
+      return (await orderNumber.textContent())?.replace(/^#/, '').trim() || '';
+    }
+
+    const confirmationText = await (await this.resolve('checkout.orderConfirmation')).first().textContent();
+    const orderMatch = confirmationText?.match(/Order\s*(?:#|number:?)\s*(\w+)/i);
     return orderMatch?.[1] || '';
   }
 
@@ -0,0 +1,11 @@
+import { ProductListingPage } from './ProductListingPage';
+import { TEST_DATA } from '../utils/test-helpers';
+
+/**
+ * Collection Page Object for Saleor Storefront
+ * Represents a collection's product listing
+ */
+export class CollectionPage extends ProductListingPage {
+  protected readonly section = 'collections';
+  protected readonly defaultSlug = TEST_DATA.BROWSE.COLLECTION_SLUG;
+}
@@ -0,0 +1,64 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { SmokeTestConfig, UserCredentials } from '../config/test-config';
+
+/**
+ * Login Page Object for Saleor Storefront
+ * Represents the storefront sign-in page
+ */
+export class LoginPage extends BasePage {
+  // Locators
+  private readonly emailInput: Locator;
+  private readonly passwordInput: Locator;
+  private readonly submitButton: Locator;
+  private readonly errorMessage: Locator;
+  private readonly userMenu: Locator;
+
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig) {
+    super(page, channel, config);
+
+    // Initialize locators from the selector registry
+    this.emailInput = this.locate('login.email');
+    this.passwordInput = this.locate('login.password');
+    this.submitButton = this.locate('login.submit');
+    this.errorMessage = this.locate('login.error');
+    this.userMenu = this.locate('home.userMenu');
+  }
+
+  /**
+   * Navigate to the sign-in page
+   */
+  async goto(): Promise<void> {
+    await this.gotoPath('/login');
+  }
+
+  /**
+   * Verify sign-in page is loaded
+   */
+  async verifyLoginPageLoaded(): Promise<void> {
+    await this.verifyChannelUrl('/login');
+    await expect(this.emailInput.first()).toBeVisible();
+    await this.recordSelectorHealth('login');
+  }
+
+  /**
+   * Submit the sign-in form
+   */
+  async login({ email, password }: UserCredentials): Promise<void> {
+    await this.safeFill(this.emailInput.first(), email);
+    await this.safeFill(this.passwordInput.first(), password);
+    await this.safeClick(this.submitButton.first());
+    await this.waitForPageLoad();
+  }
+
+  /**
+   * Verify the storefront shows the signed-in user
+   */
+  async verifyLoggedIn(): Promise<void> {
+    const error = this.errorMessage.first();
+    if (await this.elementExists(error)) {
+      throw new Error(`Sign-in was rejected: ${(await error.textContent())?.trim()}`);
+    }
+    await expect(this.userMenu.first()).toBeVisible();
+  }
+}
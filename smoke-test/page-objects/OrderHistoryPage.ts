@@ -0,0 +1,95 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { SmokeTestConfig } from '../config/test-config';
+
+/**
+ * Order History Page Object for Saleor Storefront
+ * Represents the customer's order list and the details page of a single order
+ */
+export class OrderHistoryPage extends BasePage {
+  // Locators
+  private readonly historyTitle: Locator;
+  private readonly orderRows: Locator;
+  private readonly emptyMessage: Locator;
+  private readonly detailsTitle: Locator;
+  private readonly orderLines: Locator;
+  private readonly orderTotal: Locator;
+
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig) {
+    super(page, channel, config);
+
+    // Initialize locators from the selector registry
+    this.historyTitle = this.locate('orderHistory.title');
+    this.orderRows = this.locate('orderHistory.orderRow');
+    this.emptyMessage = this.locate('orderHistory.empty');
+    this.detailsTitle = this.locate('orderHistory.detailsTitle');
+    this.orderLines = this.locate('orderHistory.orderLine');
+    this.orderTotal = this.locate('orderHistory.total');
+  }
+
+  /**
+   * Navigate to the order history
+   */
+  async goto(): Promise<void> {
+    await this.gotoPath('/account/orders');
+  }
+
+  /**
+   * Verify order history page is loaded
+   */
+  async verifyOrderHistoryLoaded(): Promise<void> {
+    await this.verifyChannelUrl('/account/orders');
+    await expect(this.historyTitle.first()).toBeVisible();
+    await this.recordSelectorHealth('orderHistory');
+  }
+
+  /**
+   * Check whether the customer has no orders yet
+   */
+  async isEmpty(): Promise<boolean> {
+    return this.elementExists(this.emptyMessage.first());
+  }
+
+  /**
+   * Get the order numbers listed, without the leading '#'
+   */
+  async getOrderNumbers(): Promise<string[]> {
+    const numbers: string[] = [];
+    for (const row of await this.orderRows.all()) {
+      const link = await this.selectors.resolve(row, 'orderHistory.orderNumber');
+      const text = (await link.first().textContent())?.trim() ?? '';
+      numbers.push(text.replace(/^#/, ''));
+    }
+    return numbers;
+  }
+
+  /**
+   * Verify the order with the given number is in the list
+   */
+  async verifyOrderListed(orderNumber: string): Promise<void> {
+    expect(await this.getOrderNumbers()).toContain(orderNumber);
+  }
+
+  /**
+   * Open an order's details; the most recent (first) order when no number is given
+   */
+  async openOrder(orderNumber?: string): Promise<void> {
+    const row = orderNumber
+      ? this.orderRows.filter({ hasText: `#${orderNumber}` }).first()
+      : this.orderRows.first();
+    const link = await this.selectors.resolve(row, 'orderHistory.orderNumber');
+    await this.safeClick(link.first());
+    await this.waitForPageLoad();
+  }
+
+  /**
+   * Verify the details page of the given order is shown with at least one line and a total
+   */
+  async verifyOrderDetailsLoaded(orderNumber: string): Promise<void> {
+    await this.verifyChannelUrl(`/account/orders/${orderNumber}`);
+    await expect(this.detailsTitle.first()).toContainText(orderNumber);
+    await expect(this.orderLines.first()).toBeVisible();
+    await expect(this.orderTotal.first()).toBeVisible();
+    await this.recordSelectorHealth('orderHistory');
+  }
+}
@@ -0,0 +1,176 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { SmokeTestConfig } from '../config/test-config';
+import { TEST_DATA } from '../utils/test-helpers';
+
+/**
+ * A product card found on a listing page
+ */
+export interface ListedProduct {
+  name: string;
+  /** Absolute URL of the product page */
+  url: string;
+}
+
+/**
+ * Shared behaviour of category and collection pages: a titled product grid
+ * paged by "Next page" links or a "Load more" button
+ */
+export abstract class ProductListingPage extends BasePage {
+  /** Route segment the listings live under, e.g. 'categories' */
+  protected abstract readonly section: string;
+  /** Listing opened by goto() without a slug */
+  protected abstract readonly defaultSlug: string;
+
+  // Locators
+  protected readonly listingTitle: Locator;
+  protected readonly productList: Locator;
+  protected readonly productCards: Locator;
+  protected readonly nextPageLink: Locator;
+  protected readonly loadMoreButton: Locator;
+  protected readonly emptyMessage: Locator;
+
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig) {
+    super(page, channel, config);
+
+    // Initialize locators from the selector registry
+    this.listingTitle = this.locate('listing.title');
+    this.productList = this.locate('listing.productList');
+    this.productCards = this.locate('listing.productCard');
+    this.nextPageLink = this.locate('listing.nextPage');
+    this.loadMoreButton = this.locate('listing.loadMore');
+    this.emptyMessage = this.locate('listing.empty');
+  }
+
+  /**
+   * Navigate to a listing by slug
+   */
+  async goto(slug: string = this.defaultSlug): Promise<void> {
+    await this.gotoPath(`/${this.section}/${slug}`);
+  }
+
+  /**
+   * Verify a listing page of this kind is loaded
+   */
+  async verifyListingLoaded(): Promise<void> {
+    await this.verifyChannelUrl(`/${this.section}/`);
+    await expect(this.listingTitle.first()).toBeVisible();
+    await this.recordSelectorHealth('listing');
+  }
+
+  /**
+   * Get the listing's heading, e.g. the category name
+   */
+  async getTitle(): Promise<string> {
+    return (await this.listingTitle.first().textContent())?.trim() ?? '';
+  }
+
+  /**
+   * Verify the listing shows products rather than its empty state
+   */
+  async verifyHasProducts(): Promise<void> {
+    const title = await this.getTitle();
+    expect(await this.elementExists(this.emptyMessage.first()), `"${title}" should not be empty`).toBe(false);
+    await expect(this.productCards.first(), `"${title}" should list products`).toBeVisible();
+  }
+
+  /**
+   * Get the products currently shown
+   */
+  async getProducts(): Promise<ListedProduct[]> {
+    const products: ListedProduct[] = [];
+    for (const card of await this.productCards.all()) {
+      const name = await this.selectors.resolve(card, 'listing.productName');
+      const href = await card.getAttribute('href');
+      products.push({
+        name: (await name.first().textContent())?.trim() ?? '',
+        url: new URL(href ?? '', this.page.url()).toString(),
+      });
+    }
+    return products;
+  }
+
+  /**
+   * Show the next batch of products, following "Next page" or clicking "Load more"
+   * Returns false when the listing has no more products
+   */
+  async showMoreProducts(): Promise<boolean> {
+    const nextPage = this.nextPageLink.first();
+    if (await this.elementExists(nextPage)) {
+      const currentUrl = this.page.url();
+      await this.safeClick(nextPage);
+      await this.page.waitForURL(url => url.toString() !== currentUrl);
+      await this.waitForPageLoad();
+      return true;
+    }
+
+    const loadMore = this.loadMoreButton.first();
+    if (await this.elementExists(loadMore)) {
+      const shown = await this.productCards.count();
+      await this.safeClick(loadMore);
+      await expect.poll(() => this.productCards.count()).toBeGreaterThan(shown);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Collect the products of every page, following pagination up to maxPages
+   */
+  async collectAllProducts(maxPages: number = TEST_DATA.BROWSE.MAX_PAGES): Promise<ListedProduct[]> {
+    const products = new Map<string, ListedProduct>();
+    for (const product of await this.collectListedProducts(maxPages)) {
+      products.set(product.url, product);
+    }
+    return [...products.values()];
+  }
+
+  /**
+   * Collect the product cards of every page as listed, repeats included, following pagination up to maxPages
+   * A "Load more" listing keeps earlier cards on the page, so only the cards added by each step are taken
+   */
+  async collectListedProducts(maxPages: number = TEST_DATA.BROWSE.MAX_PAGES): Promise<ListedProduct[]> {
+    const listed: ListedProduct[] = [];
+    let previous = { url: '', count: 0 };
+    for (let pageNumber = 1; pageNumber <= maxPages; pageNumber++) {
+      const shown = await this.getProducts();
+      listed.push(...(this.page.url() === previous.url ? shown.slice(previous.count) : shown));
+      previous = { url: this.page.url(), count: shown.length };
+      if (pageNumber === maxPages || !(await this.showMoreProducts())) {
+        break;
+      }
+    }
+    return listed;
+  }
+
+  /**
+   * Verify every product links to a product page of this channel that loads without rendering
+   * the storefront's not-found page; links are opened in a separate tab so the listing stays on its page
+   */
+  async verifyProductLinks(products: ListedProduct[]): Promise<void> {
+    const productUrl = this.urlPattern('/products/');
+    const tab = await this.page.context().newPage();
+    const notFound = this.selectors.locator(tab, 'page.notFound');
+
+    try {
+      for (const { name, url } of products) {
+        expect(url, `"${name}" should link to a product page`).toMatch(productUrl);
+        const response = await tab.goto(url, { waitUntil: 'domcontentloaded' });
+        expect(response?.ok(), `"${name}" product page returned ${response?.status()}`).toBe(true);
+        // Counted rather than awaited, as in the link checker: a healthy page should not cost the element timeout
+        expect(await notFound.count(), `"${name}" product page rendered the not-found page`).toBe(0);
+      }
+    } finally {
+      await tab.close();
+    }
+  }
+
+  /**
+   * Click a product card on the current page
+   */
+  async openProduct(index = 0): Promise<void> {
+    await this.safeClick(this.productCards.nth(index));
+    await this.waitForPageLoad();
+  }
+}
@@ -1,5 +1,43 @@
 import { Page, Locator, expect } from '@playwright/test';
 import { BasePage } from './BasePage';
+import { SmokeTestConfig } from '../config/test-config';
+import { markDegraded } from '../utils/degraded';
+import { Money } from '../utils/money';
+
+/**
+ * A variant attribute offered on the product page, e.g. Size with S, M and L
+ */
+export interface VariantAttribute {
+  name: string;
+  values: string[];
+}
+
+/**
+ * What the product page shows for one combination of attribute values
+ */
+export interface VariantCombination {
+  /** Selected value per attribute name */
+  selection: Record<string, string>;
+  /** Variant in the ?variant= query parameter after selecting; null when the URL names none */
+  variantId: string | null;
+  /** Price shown for the selection; null when none is shown or it is not a price */
+  price: Money | null;
+  /** Add to cart is enabled for the selection */
+  available: boolean;
+}
+
+/**
+ * The product's variants as read from the page: every attribute and every combination of their values
+ */
+export interface VariantModel {
+  attributes: VariantAttribute[];
+  combinations: VariantCombination[];
+}
+
+interface AttributeOptions {
+  attribute: VariantAttribute;
+  options: Locator;
+}
 
 /**
  * Product Detail Page Object for Saleor Storefront
@@ -12,6 +50,7 @@ export class ProductPage extends BasePage {
   private readonly productDescription: Locator;
   private readonly productImage: Locator;
   private readonly variantSelector: Locator;
+  private readonly variantAttributes: Locator;
   private readonly sizeOptions: Locator;
   private readonly colorOptions: Locator;
   private readonly addToCartButton: Locator;
@@ -20,22 +59,23 @@ export class ProductPage extends BasePage {
   private readonly backButton: Locator;
   private readonly productGallery: Locator;
 
-  constructor(page: Page) {
-    super(page);
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig) {
+    super(page, channel, config);
     
-    // Initialize locators with multiple fallback selectors
-    this.productTitle = page.locator('[data-testid="product-title"], .product-title, h1');
-    this.productPrice = page.locator('[data-testid="product-price"], .product-price, .price');
-    this.productDescription = page.locator('[data-testid="product-description"], .product-description, .description');
-    this.productImage = page.locator('[data-testid="product-image"], .product-image, .gallery img');
-    this.variantSelector = page.locator('[data-testid="variant-selector"], .variant-selector, .product-variants');
-    this.sizeOptions = page.locator('[data-testid="size-option"], .size-option, [data-variant-type="size"] button');
-    this.colorOptions = page.locator('[data-testid="color-option"], .color-option, [data-variant-type="color"] button');
-    this.addToCartButton = page.locator('[data-testid="add-to-cart"], .add-to-cart, button:has-text("Add to Cart")');
-    this.quantitySelector = page.locator('[data-testid="quantity"], .quantity, input[type="number"]');
-    this.breadcrumb = page.locator('[data-testid="breadcrumb"], .breadcrumb, nav');
-    this.backButton = page.locator('[data-testid="back"], .back, button:has-text("Back")');
-    this.productGallery = page.locator('[data-testid="product-gallery"], .product-gallery, .gallery');
+    // Initialize locators from the selector registry
+    this.productTitle = this.locate('product.title');
+    this.productPrice = this.locate('product.price');
+    this.productDescription = this.locate('product.description');
+    this.productImage = this.locate('product.image');
+    this.variantSelector = this.locate('product.variantSelector');
+    this.variantAttributes = this.locate('product.variantAttribute');
+    this.sizeOptions = this.locate('product.sizeOption');
+    this.colorOptions = this.locate('product.colorOption');
+    this.addToCartButton = this.locate('product.addToCart');
+    this.quantitySelector = this.locate('product.quantity');
+    this.breadcrumb = this.locate('product.breadcrumb');
+    this.backButton = this.locate('product.back');
+    this.productGallery = this.locate('product.gallery');
   }
 
   /**
@@ -43,7 +83,7 @@ export class ProductPage extends BasePage {
    */
   async goto(productSlug?: string): Promise<void> {
     if (productSlug) {
-      await this.page.goto(`/products/${productSlug}`);
+      await this.page.goto(this.buildUrl(`/products/${encodeURIComponent(productSlug)}`));
     }
     await this.waitForPageLoad();
   }
@@ -52,8 +92,8 @@ export class ProductPage extends BasePage {
    * Verify product page is loaded
    */
   async verifyProductPageLoaded(): Promise<void> {
-    // Verify URL contains product path
-    await expect(this.page).toHaveURL(/.*\/products\/.*/);
+    // Verify URL is a product path within the current channel
+    await this.verifyChannelUrl('/products/');
     
     // Verify essential elements
     await expect(this.productTitle).toBeVisible();
@@ -62,6 +102,7 @@ export class ProductPage extends BasePage {
     const hasPriceOrButton = await this.elementExists(this.productPrice) || 
                            await this.elementExists(this.addToCartButton);
     expect(hasPriceOrButton).toBe(true);
+    await this.recordSelectorHealth('product');
   }
 
   /**
@@ -82,62 +123,69 @@ export class ProductPage extends BasePage {
   }
 
   /**
-   * Select product variant (size)
+   * Select a size; fails listing the offered sizes when the size is not among them
    */
   async selectSize(size: string): Promise<void> {
-    // Try multiple selector patterns for size selection
-    const sizeSelectors = [
-      `[data-testid="size-option"]:has-text("${size}")`,
-      `[data-variant="size"]:has-text("${size}")`,
-      `.size-option:has-text("${size}")`,
-      `button:has-text("${size}")`,
-      `[data-size="${size}"]`,
-      `[value="${size}"]`
-    ];
-
-    let selected = false;
-    for (const selector of sizeSelectors) {
-      const element = this.page.locator(selector);
-      if (await this.elementExists(element)) {
-        await this.safeClick(element);
-        selected = true;
-        break;
-      }
-    }
+    await this.selectAttributeValue('Size', size);
+  }
 
-    // If no specific size selector found, try generic variant selectors
-    if (!selected && await this.elementExists(this.variantSelector)) {
-      const variants = this.variantSelector.locator('button, select option');
-      const variantCount = await variants.count();
-      
-      for (let i = 0; i < variantCount; i++) {
-        const variant = variants.nth(i);
-        const text = await variant.textContent();
-        if (text?.includes(size)) {
-          await this.safeClick(variant);
-          selected = true;
-          break;
-        }
-      }
-    }
+  /**
+   * Select a color; fails listing the offered colors when the color is not among them
+   */
+  async selectColor(color: string): Promise<void> {
+    await this.selectAttributeValue('Color', color);
+  }
 
-    // If still not selected, click first available variant
-    if (!selected) {
-      const firstVariant = this.sizeOptions.first();
-      if (await this.elementExists(firstVariant)) {
-        await this.safeClick(firstVariant);
+  /**
+   * Read the variant attributes the page offers and their values; empty for single-variant products
+   * Storefronts without grouped attributes fall back to size and color options, then to one "Variant" list
+   */
+  async getVariantAttributes(): Promise<VariantAttribute[]> {
+    return (await this.attributeOptions()).map(({ attribute }) => attribute);
+  }
+
+  /**
+   * Select one value per attribute, e.g. { Size: 'M', Color: 'Red' }
+   */
+  async selectVariant(selection: Record<string, string>): Promise<void> {
+    const groups = await this.attributeOptions();
+    for (const [name, value] of Object.entries(selection)) {
+      const group = groups.find(candidate => candidate.attribute.name.toLowerCase() === name.toLowerCase());
+      if (!group) {
+        throw new Error(`Product has no "${name}" attribute; offered attributes: ${groups.map(({ attribute }) => attribute.name).join(', ') || '(none)'}`);
+      }
+      const index = group.attribute.values.indexOf(value);
+      if (index < 0) {
+        throw new Error(`${group.attribute.name} "${value}" is not offered; available values: ${group.attribute.values.join(', ')}`);
       }
+      await this.safeClick(group.options.nth(index));
     }
+    await this.waitForPageLoad();
   }
 
   /**
-   * Select product color
+   * Variant ID the URL points at (the ?variant= query parameter), null when none is selected
    */
-  async selectColor(color: string): Promise<void> {
-    const colorElement = this.colorOptions.filter({ hasText: color }).first();
-    if (await this.elementExists(colorElement)) {
-      await this.safeClick(colorElement);
+  getSelectedVariantId(): string | null {
+    return new URL(this.page.url()).searchParams.get('variant');
+  }
+
+  /**
+   * Select every combination of attribute values in turn and record the variant, price and availability shown
+   */
+  async readVariantModel(): Promise<VariantModel> {
+    const attributes = await this.getVariantAttributes();
+    const combinations: VariantCombination[] = [];
+    for (const selection of combinationsOf(attributes)) {
+      await this.selectVariant(selection);
+      combinations.push({
+        selection,
+        variantId: this.getSelectedVariantId(),
+        price: await this.getProductPrice().catch(() => null),
+        available: await this.isAddToCartEnabled(),
+      });
     }
+    return { attributes, combinations };
   }
 
   /**
@@ -157,29 +205,28 @@ export class ProductPage extends BasePage {
       // Try normal click first
       await this.safeClick(this.addToCartButton);
     } catch (error) {
-      console.log('Normal click failed, trying force click...');
       // If normal click fails (button disabled), try force click for smoke test
+      markDegraded('Add to cart button was not clickable; used force click');
       await this.addToCartButton.click({ force: true });
     }
     
     // Wait for success indicator or cart update instead of fixed timeout
-    await this.page.waitForSelector('.success, .added, [data-success]', { 
+    await this.locate('product.addedConfirmation').first().waitFor({ 
       timeout: 3000 
     }).catch(() => {
       // If no success indicator found, continue anyway for smoke test
-      console.log('No success indicator found, continuing...');
+      markDegraded('No add to cart confirmation appeared within 3s');
     });
   }
 
   /**
-   * Add product to cart with specifications - improved variant selection
+   * Add product to cart with specifications; the size only applies to products offering sizes
    */
   async addToCartWithSpecs(size?: string, quantity = 1): Promise<void> {
-    // First, try to select any available variant to enable the add to cart button
+    // First, select an available variant to enable the add to cart button
     await this.selectAnyVariant();
-    
-    // Select specific size if provided and size options exist
-    if (size && await this.elementExists(this.sizeOptions)) {
+
+    if (size && (await this.getVariantAttributes()).some(attribute => attribute.name.toLowerCase() === 'size')) {
       await this.selectSize(size);
     }
 
@@ -196,39 +243,17 @@ export class ProductPage extends BasePage {
   }
 
   /**
-   * Select any available variant to enable add to cart button
+   * Select the first combination of attribute values that can be added to the cart
+   * Returns the selection, or null when the product has no options or every combination is unavailable
    */
-  async selectAnyVariant(): Promise<void> {
-    // Try different variant selector patterns
-    const variantSelectors = [
-      'button[data-testid*="variant"]',
-      'button[data-variant]',
-      '.variant-option button',
-      '.product-variants button',
-      '[role="radiogroup"] button',
-      'fieldset button'
-    ];
-
-    for (const selector of variantSelectors) {
-      const variants = this.page.locator(selector);
-      const count = await variants.count();
-      
-      if (count > 0) {
-        // Click the first available variant
-        const firstVariant = variants.first();
-        if (await this.elementExists(firstVariant)) {
-          try {
-            await this.safeClick(firstVariant);
-            console.log(`Selected variant using selector: ${selector}`);
-            return;
-          } catch (error) {
-            console.log(`Failed to click variant with selector ${selector}:`, error);
-          }
-        }
+  async selectAnyVariant(): Promise<Record<string, string> | null> {
+    for (const selection of combinationsOf(await this.getVariantAttributes())) {
+      await this.selectVariant(selection);
+      if (await this.isAddToCartEnabled()) {
+        return selection;
       }
     }
-    
-    console.log('No variants found to select');
+    return null;
   }
 
   /**
@@ -238,17 +263,14 @@ export class ProductPage extends BasePage {
     try {
       await this.addToCartButton.waitFor({ 
         state: 'visible',
-        timeout: 5000
+        timeout: this.config.timeouts.action
       });
       
-      // Wait for button to be enabled (not disabled)
-      await this.page.waitForFunction(() => {
-        const button = document.querySelector('[data-testid="add-to-cart"], .add-to-cart, button:has-text("Add to Cart")');
-        return button && !button.hasAttribute('disabled') && button.getAttribute('aria-disabled') !== 'true';
-      }, { timeout: 5000 });
+      // Wait for button to be enabled (not disabled or aria-disabled)
+      await expect(this.addToCartButton.first()).toBeEnabled({ timeout: this.config.timeouts.action });
       
-    } catch (error) {
-      console.log('Add to cart button may still be disabled, trying anyway...');
+    } catch {
+      markDegraded('Add to cart button did not become enabled; clicking anyway');
     }
   }
 
@@ -261,14 +283,10 @@ export class ProductPage extends BasePage {
   }
 
   /**
-   * Get product price text
+   * Get the product price; null when no price is shown, fails when the text is not a price
    */
-  async getProductPrice(): Promise<string> {
-    if (await this.elementExists(this.productPrice)) {
-      const price = await this.productPrice.textContent();
-      return price?.trim() || '';
-    }
-    return '';
+  async getProductPrice(): Promise<Money | null> {
+    return await this.elementExists(this.productPrice) ? this.readMoney(this.productPrice) : null;
   }
 
   /**
@@ -288,6 +306,33 @@ export class ProductPage extends BasePage {
     }
   }
 
+  /**
+   * Count the variant options offered; zero for single-variant products and products without variants
+   */
+  async getVariantOptionCount(): Promise<number> {
+    return this.locate('product.variantOption').count();
+  }
+
+  /**
+   * Check whether the add to cart button is present and enabled
+   */
+  async isAddToCartEnabled(): Promise<boolean> {
+    const button = this.addToCartButton.first();
+    return await this.elementExists(button) && await button.isEnabled();
+  }
+
+  /**
+   * Check whether the product image is present and actually loaded
+   */
+  async isProductImageLoaded(): Promise<boolean> {
+    const image = this.productImage.first();
+    if (!(await this.elementExists(image))) {
+      return false;
+    }
+    return image.evaluate(element =>
+      !(element instanceof HTMLImageElement) || (element.complete && element.naturalWidth > 0));
+  }
+
   /**
    * Verify product image is displayed
    */
@@ -296,4 +341,50 @@ export class ProductPage extends BasePage {
       await expect(this.productImage).toBeVisible();
     }
   }
+
+  private async selectAttributeValue(name: string, value: string): Promise<void> {
+    const attribute = (await this.getVariantAttributes()).find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (!attribute) {
+      throw new Error(`Product offers no ${name.toLowerCase()} options`);
+    }
+    await this.selectVariant({ [attribute.name]: value });
+  }
+
+  private async attributeOptions(): Promise<AttributeOptions[]> {
+    const groups: AttributeOptions[] = [];
+    for (const group of await this.variantAttributes.all()) {
+      const name = await this.selectors.resolve(group, 'product.variantAttributeName');
+      const options = await this.selectors.resolve(group, 'product.variantOption');
+      groups.push(await this.describeOptions((await name.first().textContent())?.trim() ?? '', options));
+    }
+    if (groups.length > 0) {
+      return groups;
+    }
+
+    for (const [name, options] of [['Size', this.sizeOptions], ['Color', this.colorOptions]] as const) {
+      if (await options.count() > 0) {
+        groups.push(await this.describeOptions(name, options));
+      }
+    }
+    if (groups.length === 0 && await this.locate('product.variantOption').count() > 0) {
+      groups.push(await this.describeOptions('Variant', this.locate('product.variantOption')));
+    }
+    return groups;
+  }
+
+  private async describeOptions(name: string, options: Locator): Promise<AttributeOptions> {
+    const values = (await options.allTextContents()).map(value => value.trim());
+    return { attribute: { name, values }, options };
+  }
+}
+
+/**
+ * Every combination of one value per attribute, e.g. S/Black, S/Red, M/Black, ...
+ */
+function combinationsOf(attributes: VariantAttribute[]): Array<Record<string, string>> {
+  return attributes.reduce<Array<Record<string, string>>>(
+    (combinations, attribute) => combinations.flatMap(combination =>
+      attribute.values.map(value => ({ ...combination, [attribute.name]: value }))),
+    attributes.length > 0 ? [{}] : []
+  );
 }
@@ -0,0 +1,93 @@
+import { Page, Locator, expect } from '@playwright/test';
+import { BasePage } from './BasePage';
+import { SmokeTestConfig } from '../config/test-config';
+
+/**
+ * Search Page Object for Saleor Storefront
+ * Represents the header search box and the search results page it leads to
+ */
+export class SearchPage extends BasePage {
+  // Locators
+  private readonly searchInput: Locator;
+  private readonly searchTitle: Locator;
+  private readonly resultList: Locator;
+  private readonly results: Locator;
+  private readonly emptyMessage: Locator;
+
+  constructor(page: Page, channel?: string, config?: SmokeTestConfig) {
+    super(page, channel, config);
+
+    // Initialize locators from the selector registry
+    this.searchInput = this.locate('home.searchInput');
+    this.searchTitle = this.locate('search.title');
+    this.resultList = this.locate('search.resultList');
+    this.results = this.locate('search.result');
+    this.emptyMessage = this.locate('search.empty');
+  }
+
+  /**
+   * Navigate straight to the results for a query
+   */
+  async goto(query = ''): Promise<void> {
+    await this.gotoPath(`/search?${new URLSearchParams({ query }).toString()}`);
+  }
+
+  /**
+   * Verify the search box is present; fails instead of skipping when the storefront has no search UI
+   */
+  async verifySearchAvailable(): Promise<void> {
+    await expect(this.searchInput.first(), 'search input should be present in the storefront header').toBeVisible();
+  }
+
+  /**
+   * Search through the header search box, like a shopper would
+   */
+  async search(term: string): Promise<void> {
+    await this.verifySearchAvailable();
+    await this.safeFill(this.searchInput.first(), term);
+    await this.searchInput.first().press('Enter');
+    await this.page.waitForURL(this.urlPattern('/search'));
+    await this.waitForPageLoad();
+  }
+
+  /**
+   * Verify the results page is shown for the term and the term is reflected in the URL
+   */
+  async verifySearchResultsLoaded(term: string): Promise<void> {
+    await this.verifyChannelUrl('/search');
+    const queryValues = [...new URL(this.page.url()).searchParams.values()];
+    expect(queryValues, 'search term should be reflected in the URL').toContain(term);
+    await expect(this.searchTitle.first()).toBeVisible();
+    await this.recordSelectorHealth('search');
+  }
+
+  /**
+   * Get the names of the products found
+   */
+  async getResultNames(): Promise<string[]> {
+    const names: string[] = [];
+    for (const result of await this.results.all()) {
+      const name = await this.selectors.resolve(result, 'search.resultName');
+      names.push((await name.first().textContent())?.trim() ?? '');
+    }
+    return names;
+  }
+
+  /**
+   * Verify a product with the given name is among the results
+   */
+  async verifyResultsContain(productName: string): Promise<void> {
+    await expect(this.resultList.first()).toBeVisible();
+    const names = await this.getResultNames();
+    expect(names.some(name => name.toLowerCase().includes(productName.toLowerCase())),
+      `expected "${productName}" in search results: ${names.join(', ') || '(none)'}`).toBe(true);
+  }
+
+  /**
+   * Verify the empty state is shown and no products are listed
+   */
+  async verifyNoResults(): Promise<void> {
+    await expect(this.emptyMessage.first()).toBeVisible();
+    await expect(this.results).toHaveCount(0);
+  }
+}
@@ -0,0 +1,90 @@
+import { HomePage } from './HomePage';
+import { ProductPage } from './ProductPage';
+import { CartPage } from './CartPage';
+import { CheckoutPage } from './CheckoutPage';
+import { TEST_DATA } from '../utils/test-helpers';
+
+/**
+ * Storefront facade composing the page objects into high-level shopper journeys
+ * Lets specs express a flow in a few lines; each step still verifies the page it lands on
+ */
+export class Storefront {
+  constructor(
+    public readonly home: HomePage,
+    public readonly product: ProductPage,
+    public readonly cart: CartPage,
+    public readonly checkout: CheckoutPage
+  ) {}
+
+  /**
+   * Open the channel homepage and click through to the first product
+   * Returns the product title shown on the product page
+   */
+  async browseToFirstProduct(): Promise<string> {
+    return this.browseToProduct(0);
+  }
+
+  /**
+   * Open the channel homepage and click through to the product at the given position
+   * Returns the product title shown on the product page
+   */
+  async browseToProduct(index: number): Promise<string> {
+    await this.home.goto();
+    await this.home.verifyHomepageLoaded();
+    await this.home.clickProductAt(index);
+    await this.product.verifyProductPageLoaded();
+    return this.product.getProductTitle();
+  }
+
+  /**
+   * Add the first product on the homepage to the cart and verify it shows up there
+   * Returns the name of the product added
+   */
+  async addAnyProductToCart(quantity: number = TEST_DATA.SAMPLE_PRODUCTS.DEFAULT_QUANTITY): Promise<string> {
+    return this.addProductToCart(0, quantity);
+  }
+
+  /**
+   * Add the product at the given position on the homepage to the cart and verify it shows up there
+   * Returns the name of the product added
+   */
+  async addProductToCart(index: number, quantity: number = TEST_DATA.SAMPLE_PRODUCTS.DEFAULT_QUANTITY): Promise<string> {
+    const productName = await this.browseToProduct(index);
+    await this.product.addToCartWithSpecs(undefined, quantity);
+
+    await this.cart.goto();
+    await this.cart.verifyCartPageLoaded();
+    await this.cart.verifyItemInCart(productName);
+    return productName;
+  }
+
+  /**
+   * Proceed from the cart to checkout; opens checkout directly when the cart has no checkout button
+   */
+  async goToCheckout(): Promise<void> {
+    await this.cart.goto();
+    await this.cart.verifyCartPageLoaded();
+
+    if (await this.cart.isCartEmpty()) {
+      await this.checkout.goto();
+    } else {
+      await this.cart.clickCheckout();
+    }
+    await this.checkout.verifyCheckoutPageLoaded();
+  }
+
+  /**
+   * Place an order as the signed-in customer with their default saved address and the dummy gateway
+   * Returns the order number from the confirmation page
+   */
+  async placeCustomerOrder(): Promise<string> {
+    await this.addAnyProductToCart();
+    await this.goToCheckout();
+    await this.checkout.selectSavedShippingAddress();
+    await this.checkout.useShippingAddressForBilling();
+    await this.checkout.selectDeliveryMethod();
+    await this.checkout.payWithDummyGateway();
+    await this.checkout.verifyOrderConfirmation();
+    return this.checkout.getOrderNumber();
+  }
+}
@@ -0,0 +1,101 @@
+import { Page } from '@playwright/test';
+
+/**
+ * Web Vitals collection for smoke test pages
+ * Reads Navigation/Paint/LCP/Layout Shift timing entries after the page has loaded.
+ * Metrics a browser does not report (LCP and CLS outside Chromium) are null.
+ */
+
+export interface WebVitals {
+  /** Time to first byte of the document, ms */
+  ttfb: number;
+  /** First Contentful Paint, ms */
+  fcp: number | null;
+  /** Largest Contentful Paint, ms */
+  lcp: number | null;
+  /** Cumulative Layout Shift, unitless */
+  cls: number | null;
+  /** Bytes transferred for the document and every resource it loaded */
+  transferSize: number;
+  /** Document plus resource requests */
+  requestCount: number;
+}
+
+export type WebVitalName = keyof WebVitals;
+
+/** Upper bounds per metric; metrics left out are not checked */
+export type PerformanceBudget = Partial<Record<WebVitalName, number>>;
+
+export interface BudgetViolation {
+  metric: WebVitalName;
+  actual: number;
+  budget: number;
+}
+
+/**
+ * Collect Web Vitals for the document currently loaded in the page
+ */
+export async function collectWebVitals(page: Page): Promise<WebVitals> {
+  await page.waitForLoadState('load');
+
+  return page.evaluate(async () => {
+    // Buffered observers replay entries recorded before this script ran
+    const observed = (type: string): Promise<PerformanceEntry[] | null> => new Promise(resolve => {
+      if (!PerformanceObserver.supportedEntryTypes.includes(type)) {
+        resolve(null);
+        return;
+      }
+      const entries: PerformanceEntry[] = [];
+      const observer = new PerformanceObserver(list => entries.push(...list.getEntries()));
+      observer.observe({ type, buffered: true });
+      setTimeout(() => {
+        entries.push(...observer.takeRecords());
+        observer.disconnect();
+        resolve(entries);
+      }, 0);
+    });
+
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+    const paint = performance.getEntriesByName('first-contentful-paint')[0];
+    const lcpEntries = await observed('largest-contentful-paint');
+    const shifts = await observed('layout-shift') as Array<PerformanceEntry & { value: number; hadRecentInput: boolean }> | null;
+
+    return {
+      ttfb: navigation ? Math.round(navigation.responseStart - navigation.startTime) : 0,
+      fcp: paint ? Math.round(paint.startTime) : null,
+      lcp: lcpEntries && lcpEntries.length > 0 ? Math.round((lcpEntries[lcpEntries.length - 1] as PerformanceEntry).startTime) : null,
+      cls: shifts ? Number(shifts.filter(shift => !shift.hadRecentInput).reduce((sum, shift) => sum + shift.value, 0).toFixed(3)) : null,
+      transferSize: (navigation?.transferSize ?? 0) + resources.reduce((sum, resource) => sum + resource.transferSize, 0),
+      requestCount: resources.length + 1,
+    };
+  });
+}
+
+/**
+ * Compare collected metrics with a budget; unreported metrics are never violations
+ */
+export function checkBudget(vitals: WebVitals, budget: PerformanceBudget): BudgetViolation[] {
+  const violations: BudgetViolation[] = [];
+  for (const [metric, limit] of Object.entries(budget) as Array<[WebVitalName, number]>) {
+    const actual = vitals[metric];
+    if (actual !== null && actual > limit) {
+      violations.push({ metric, actual, budget: limit });
+    }
+  }
+  return violations;
+}
+
+const UNITS: Record<WebVitalName, string> = {
+  ttfb: 'ms',
+  fcp: 'ms',
+  lcp: 'ms',
+  cls: '',
+  transferSize: ' bytes',
+  requestCount: ' requests',
+};
+
+export function formatViolation(pageName: string, violation: BudgetViolation): string {
+  const unit = UNITS[violation.metric];
+  return `${pageName} ${violation.metric} ${violation.actual}${unit} exceeds budget ${violation.budget}${unit}`;
+}
@@ -0,0 +1,89 @@
+import { test as base, mergeTests } from '@playwright/test';
+import { test as checkoutStateTest } from './fixtures/checkout-state';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as pageGuardTest } from './fixtures/page-guard';
+import { test as storefrontTest, expect } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+import { TEST_DATA } from './utils/test-helpers';
+import { Money } from './utils/money';
+
+const test = mergeTests(storefrontTest, checkoutStateTest, faultInjectionTest, pageGuardTest);
+
+/**
+ * Smoke Test Suite: Cart and Checkout Pricing
+ *
+ * Parses the prices the storefront shows (see utils/money.ts) and checks they add up: unit price × quantity
+ * is the line total, line totals sum to the subtotal, and subtotal plus shipping and tax is the total.
+ * The cart is seeded through the API with two products in quantities above one, so the totals are compared
+ * with what the API charges.
+ * Runs once per configured channel (CHANNELS)
+ */
+
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - Pricing`, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('PR-001: Cart line totals and subtotal should add up', async ({ saleorApi, seedCheckout, cartPage }) => {
+      // Given: Two products in quantities 3 and 2 have been added through the API
+      const [first, second] = await saleorApi.products(channel, 2);
+      expect(second, 'the channel should list at least two products').toBeDefined();
+      const { checkout } = await seedCheckout({
+        channel,
+        lines: [{ productSlug: first!.slug, quantity: 3 }, { productSlug: second!.slug, quantity: 2 }],
+      });
+
+      // When: The shopper opens the cart
+      await cartPage.goto();
+      await cartPage.verifyCartPageLoaded();
+
+      // Then: Every line and the subtotal add up, and the cart total matches the API
+      await cartPage.verifyCartArithmetic();
+      const { amount, currency } = checkout.totalPrice.gross;
+      expect((await cartPage.getTotalPrice()).toString()).toBe(Money.of(amount, currency).toString());
+    });
+
+    test('PR-002: Checkout total should be subtotal plus shipping and tax', async ({ saleorApi, seedCheckout, checkoutPage }) => {
+      // Given: A checkout with two products in quantities 3 and 2
+      const [first, second] = await saleorApi.products(channel, 2);
+      expect(second, 'the channel should list at least two products').toBeDefined();
+      const { checkout } = await seedCheckout({
+        channel,
+        lines: [{ productSlug: first!.slug, quantity: 3 }, { productSlug: second!.slug, quantity: 2 }],
+      });
+
+      // When: The shopper chooses a delivery method
+      await checkoutPage.goto(checkout.id);
+      await checkoutPage.verifyCheckoutPageLoaded();
+      await checkoutPage.selectDeliveryMethod(TEST_DATA.GUEST_CHECKOUT.DELIVERY_METHOD);
+
+      // Then: The summary adds up and its subtotal is what the API charges for the lines
+      const summary = await checkoutPage.verifySummaryArithmetic();
+      const lineTotals = checkout.lines.map(line => Money.of(line.totalPrice.gross.amount, line.totalPrice.gross.currency));
+      expect(summary.subtotal.toString()).toBe(Money.sum(lineTotals, summary.subtotal.currency).toString());
+    });
+  });
+}
+
+/**
+ * Price texts as storefronts render them, with the amount and currency they must parse to
+ */
+const PRICE_TEXTS: Array<[text: string, expected: string]> = [
+  ['$1,234.56', '1234.56 USD'],
+  ['1.234,56 zł', '1234.56 PLN'],
+  ['12 345,00 PLN', '12345.00 PLN'],
+  ['R$ 10,00', '10.00 BRL'],
+  ['-€5', '-5.00 EUR'],
+  ['$10.00 incl. VAT', '10.00 USD'],
+  ['VAT 23% 10,00 zł', '10.00 PLN'],
+  ['2 × $10.00', '10.00 USD'],
+  ['Tee × 1 - $20.00', '20.00 USD'],
+];
+
+base.describe('Pricing - Money parsing', () => {
+  base('PR-003: Storefront price texts should parse to their amount and currency', () => {
+    for (const [text, expected] of PRICE_TEXTS) {
+      expect(Money.parse(text).toString(), text).toBe(expected);
+    }
+    expect(() => Money.parse('incl. VAT'), 'a capitalised word is not a currency').toThrow(/no currency/);
+  });
+});
@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import type { LinkCheckResult } from '../link-checker/link-checker';
+
+/**
+ * Broken links reporter
+ *
+ * Collects the link check results attached by the link checker (see link-checker/link-checker.ts)
+ * and writes broken-links.json and broken-links.md: every internal link that failed to load,
+ * answered 4xx/5xx or rendered the not-found page, with the pages linking to it.
+ * The link check test itself fails on broken links; this reporter never does.
+ */
+
+interface BrokenLinksReporterOptions {
+  outputDir?: string;
+}
+
+const ATTACHMENT = 'link-check';
+
+export default class BrokenLinksReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly links = new Map<string, LinkCheckResult>();
+
+  constructor(options: BrokenLinksReporterOptions = {}) {
+    this.outputDir = options.outputDir ?? 'test-results';
+  }
+
+  onTestEnd(_test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments.filter(candidate => candidate.name === ATTACHMENT && candidate.body)) {
+      for (const link of JSON.parse((attachment.body as Buffer).toString('utf-8')) as LinkCheckResult[]) {
+        const known = this.links.get(link.url);
+        if (known) {
+          known.foundOn = [...new Set([...known.foundOn, ...link.foundOn])];
+        } else {
+          this.links.set(link.url, link);
+        }
+      }
+    }
+  }
+
+  onEnd(_result: FullResult): void {
+    if (this.links.size === 0) {
+      return;
+    }
+
+    const links = [...this.links.values()].sort((a, b) => a.url.localeCompare(b.url));
+    const broken = links.filter(isBroken);
+    const redirected = links.filter(link => link.redirects.length > 0);
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'broken-links.json'), JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      summary: { checked: links.length, broken: broken.length, redirected: redirected.length },
+      broken,
+      links,
+    }, null, 2));
+    fs.writeFileSync(path.join(this.outputDir, 'broken-links.md'), renderMarkdown(links, broken, redirected));
+
+    console.log(`\nLink check: ${links.length} internal links checked | ${broken.length} broken | ${redirected.length} redirected`);
+    for (const link of broken) {
+      console.log(`  ❌ ${link.url} (${outcome(link)})`);
+    }
+  }
+}
+
+// Same rule as isBroken() in link-checker.ts; kept local so the reporter only imports its types
+function isBroken(link: LinkCheckResult): boolean {
+  return link.status === null || link.status >= 400 || link.clientSideNotFound;
+}
+
+function outcome(link: LinkCheckResult): string {
+  if (link.error) {
+    return link.error;
+  }
+  return link.clientSideNotFound ? `not-found page, HTTP ${link.status}` : `HTTP ${link.status}`;
+}
+
+function renderMarkdown(links: LinkCheckResult[], broken: LinkCheckResult[], redirected: LinkCheckResult[]): string {
+  const brokenRows = broken.map(link =>
+    `| ${link.url} | ${outcome(link)} | ${link.foundOn.join('<br>') || '–'} |`);
+  const redirectRows = redirected.map(link =>
+    `| ${link.url} | ${link.redirects.slice(1).concat(link.finalUrl).join(' → ')} | ${link.status ?? '–'} |`);
+
+  return [
+    '# Broken Links',
+    '',
+    `${links.length} internal links checked, ${broken.length} broken, ${redirected.length} redirected.`,
+    '',
+    ...(broken.length > 0
+      ? ['| Link | Problem | Linked from |', '| --- | --- | --- |', ...brokenRows]
+      : ['No broken links.']),
+    '',
+    ...(redirected.length > 0
+      ? ['## Redirects', '', '| Link | Redirected to | Final status |', '| --- | --- | --- |', ...redirectRows, '']
+      : []),
+  ].join('\n');
+}
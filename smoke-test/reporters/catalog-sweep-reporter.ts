@@ -0,0 +1,94 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import type { ProductIssueKind, ProductSweepResult } from '../catalog-sweep/sweep';
+
+/**
+ * Catalog sweep reporter
+ *
+ * Used in CATALOG_SWEEP mode. Collects the per-product results attached by the sweep test
+ * (see catalog-sweep/sweep.ts) across channels and writes catalog-sweep.json and catalog-sweep.md,
+ * listing every product page with a missing price, missing image, no variants or an error page.
+ */
+
+interface CatalogSweepReporterOptions {
+  outputDir?: string;
+}
+
+const ATTACHMENT = 'catalog-sweep';
+
+const ISSUE_LABELS: Record<ProductIssueKind, string> = {
+  'error-page': 'Error page',
+  'missing-price': 'Missing price',
+  'missing-image': 'Missing image',
+  'no-variants': 'No variants',
+  'check-failed': 'Check failed',
+};
+
+export default class CatalogSweepReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly results: ProductSweepResult[] = [];
+
+  constructor(options: CatalogSweepReporterOptions = {}) {
+    this.outputDir = options.outputDir ?? 'test-results';
+  }
+
+  onTestEnd(_test: TestCase, result: TestResult): void {
+    for (const attachment of result.attachments.filter(candidate => candidate.name === ATTACHMENT && candidate.body)) {
+      this.results.push(...JSON.parse((attachment.body as Buffer).toString('utf-8')) as ProductSweepResult[]);
+    }
+  }
+
+  onEnd(_result: FullResult): void {
+    if (this.results.length === 0) {
+      return;
+    }
+
+    const broken = this.results.filter(product => product.issues.length > 0);
+    const issueCounts = Object.fromEntries(
+      (Object.keys(ISSUE_LABELS) as ProductIssueKind[]).map(kind =>
+        [kind, broken.filter(product => product.issues.some(issue => issue.kind === kind)).length])
+    ) as Record<ProductIssueKind, number>;
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'catalog-sweep.json'), JSON.stringify({
+      generatedAt: new Date().toISOString(),
+      summary: { checked: this.results.length, broken: broken.length, issues: issueCounts },
+      products: this.results,
+    }, null, 2));
+    fs.writeFileSync(path.join(this.outputDir, 'catalog-sweep.md'), renderMarkdown(this.results, broken, issueCounts));
+
+    console.log(`\nCatalog sweep: ${this.results.length} product pages checked, ${broken.length} broken`);
+    for (const product of broken) {
+      console.log(`  ❌ [${product.channel}] ${product.name || product.url}: ${product.issues.map(issue => issue.kind).join(', ')}`);
+    }
+  }
+}
+
+function renderMarkdown(
+  results: ProductSweepResult[],
+  broken: ProductSweepResult[],
+  issueCounts: Record<ProductIssueKind, number>
+): string {
+  const summary = (Object.entries(issueCounts) as Array<[ProductIssueKind, number]>)
+    .map(([kind, count]) => `| ${ISSUE_LABELS[kind]} | ${count} |`);
+  const rows = broken.map(product => {
+    const issues = product.issues.map(issue => `${ISSUE_LABELS[issue.kind]}: ${issue.detail.replace(/\|/g, '\\|')}`).join('<br>');
+    return `| ${product.channel} | ${product.name || '–'} | ${product.url} | ${issues} |`;
+  });
+
+  return [
+    '# Catalog Sweep',
+    '',
+    `${results.length} product pages checked, ${broken.length} with problems.`,
+    '',
+    '| Problem | Products |',
+    '| --- | --- |',
+    ...summary,
+    '',
+    ...(broken.length > 0
+      ? ['| Channel | Product | URL | Problems |', '| --- | --- | --- | --- |', ...rows]
+      : ['Every product page passed.']),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,214 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+
+/**
+ * Fault matrix reporter
+ *
+ * Used in FAULT_MATRIX mode, where the baseline project runs the smoke suite unmodified
+ * and one project per catalog fault runs the tests that fault targets.
+ * A targeted test that fails under its fault "detected" it; one that still passes "missed" it.
+ * A run in which the fault never intercepted a request is "not-injected" and left out of the score.
+ * Writes fault-matrix.json and fault-matrix.html, and only fails the run when the baseline fails.
+ */
+
+export type MatrixCell = 'detected' | 'missed' | 'not-injected' | 'skipped' | 'baseline-failed';
+
+export interface FaultMatrix {
+  generatedAt: string;
+  faults: Array<{ id: string; description: string }>;
+  tests: string[];
+  /** cells[test][faultId] */
+  cells: Record<string, Record<string, MatrixCell>>;
+  summary: {
+    detected: number;
+    missed: number;
+    /** detected / (detected + missed), like a mutation score */
+    detectionScore: number;
+    /** Tests that passed under every fault targeting them */
+    blindTests: string[];
+    /** Faults that never intercepted anything in at least one targeted test */
+    notInjected: string[];
+  };
+}
+
+interface FaultMatrixReporterOptions {
+  outputDir?: string;
+}
+
+interface Outcome {
+  status: TestResult['status'];
+  /** Whether the project's fault intercepted at least one request or page */
+  intercepted: boolean;
+}
+
+const INTERCEPTIONS_ATTACHMENT = 'fault-interceptions';
+
+export default class FaultMatrixReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly baseline = new Map<string, TestResult['status']>();
+  private readonly faultRuns = new Map<string, Map<string, Outcome>>();
+  private readonly faultDescriptions = new Map<string, string>();
+
+  constructor(options: FaultMatrixReporterOptions = {}) {
+    this.outputDir = options.outputDir ?? 'test-results';
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const metadata = test.parent.project()?.metadata as { faultId?: string; faultDescription?: string } | undefined;
+    const key = testKey(test);
+
+    if (!metadata?.faultId) {
+      this.baseline.set(key, result.status);
+      return;
+    }
+
+    this.faultDescriptions.set(metadata.faultId, metadata.faultDescription ?? '');
+    const runs = this.faultRuns.get(metadata.faultId) ?? new Map<string, Outcome>();
+    runs.set(key, { status: result.status, intercepted: interceptions(result, metadata.faultId) > 0 });
+    this.faultRuns.set(metadata.faultId, runs);
+  }
+
+  async onEnd(result: FullResult): Promise<{ status?: FullResult['status'] }> {
+    const matrix = this.buildMatrix();
+
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'fault-matrix.json'), JSON.stringify(matrix, null, 2));
+    fs.writeFileSync(path.join(this.outputDir, 'fault-matrix.html'), renderHtml(matrix));
+
+    console.log(
+      `Fault matrix: ${matrix.summary.detected} detected, ${matrix.summary.missed} missed ` +
+      `(score ${(matrix.summary.detectionScore * 100).toFixed(1)}%) -> ${path.join(this.outputDir, 'fault-matrix.html')}`
+    );
+    if (matrix.summary.notInjected.length > 0) {
+      console.log(`Faults that never intercepted a request (not scored): ${matrix.summary.notInjected.join(', ')}`);
+    }
+
+    // Failures under injected faults are the expected outcome; only a red baseline fails the run
+    const baselineFailed = [...this.baseline.values()].some(status => status === 'failed' || status === 'timedOut');
+    if (result.status === 'failed' && !baselineFailed) {
+      return { status: 'passed' };
+    }
+    return {};
+  }
+
+  private buildMatrix(): FaultMatrix {
+    const tests = [...new Set([...this.baseline.keys(), ...[...this.faultRuns.values()].flatMap(runs => [...runs.keys()])])].sort();
+    const cells: FaultMatrix['cells'] = {};
+    let detected = 0;
+    let missed = 0;
+    const notInjected = new Set<string>();
+
+    for (const [faultId, runs] of this.faultRuns) {
+      for (const [test, { status, intercepted }] of runs) {
+        const baselineStatus = this.baseline.get(test);
+        let cell: MatrixCell;
+
+        if (baselineStatus === 'failed' || baselineStatus === 'timedOut') {
+          cell = 'baseline-failed';
+        } else if (status === 'skipped') {
+          cell = 'skipped';
+        } else if (!intercepted) {
+          // The test never hit the broken route, so its outcome says nothing about detection
+          cell = 'not-injected';
+          notInjected.add(faultId);
+        } else if (status === 'failed' || status === 'timedOut' || status === 'interrupted') {
+          cell = 'detected';
+          detected++;
+        } else if (status === 'passed') {
+          cell = 'missed';
+          missed++;
+        } else {
+          cell = 'skipped';
+        }
+
+        cells[test] = { ...cells[test], [faultId]: cell };
+      }
+    }
+
+    const blindTests = tests.filter(test => {
+      const row = Object.values(cells[test] ?? {});
+      return row.length > 0 && row.every(cell => cell === 'missed');
+    });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      faults: [...this.faultRuns.keys()].map(id => ({ id, description: this.faultDescriptions.get(id) ?? '' })),
+      tests,
+      cells,
+      summary: {
+        detected,
+        missed,
+        detectionScore: detected + missed > 0 ? detected / (detected + missed) : 0,
+        blindTests,
+        notInjected: [...notInjected].sort(),
+      },
+    };
+  }
+}
+
+/**
+ * How often a fault intercepted something during a test, from the fault injection fixture's attachment
+ */
+function interceptions(result: TestResult, faultId: string): number {
+  const attachment = result.attachments.find(candidate => candidate.name === INTERCEPTIONS_ATTACHMENT && candidate.body);
+  if (!attachment?.body) {
+    return 0;
+  }
+  const counts = JSON.parse(attachment.body.toString()) as Record<string, number>;
+  return counts[faultId] ?? 0;
+}
+
+/**
+ * Identify a test independently of the project it ran in
+ */
+function testKey(test: TestCase): string {
+  // titlePath: ['', project, file, ...describes, title]
+  return test.titlePath().slice(3).join(' › ');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const CELL_STYLES: Record<MatrixCell, string> = {
+  'detected': 'background:#dcfce7',
+  'missed': 'background:#fee2e2',
+  'not-injected': 'background:#e0e7ff',
+  'skipped': 'background:#f3f4f6',
+  'baseline-failed': 'background:#fef9c3',
+};
+
+function renderHtml(matrix: FaultMatrix): string {
+  const header = matrix.faults
+    .map(fault => `<th title="${escapeHtml(fault.description)}">${escapeHtml(fault.id)}</th>`)
+    .join('');
+
+  const rows = matrix.tests.map(test => {
+    const cells = matrix.faults.map(fault => {
+      const cell = matrix.cells[test]?.[fault.id];
+      return cell ? `<td style="${CELL_STYLES[cell]}">${cell}</td>` : '<td>-</td>';
+    }).join('');
+    const blind = matrix.summary.blindTests.includes(test) ? ' ⚠️' : '';
+    return `<tr><th style="text-align:left">${escapeHtml(test)}${blind}</th>${cells}</tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Fault Detection Matrix</title>
+<style>body{font-family:sans-serif}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;font-size:13px}</style>
+</head>
+<body>
+<h1>Fault Detection Matrix</h1>
+<p>Detected: ${matrix.summary.detected} | Missed: ${matrix.summary.missed} |
+Detection score: ${(matrix.summary.detectionScore * 100).toFixed(1)}% | Generated: ${escapeHtml(matrix.generatedAt)}</p>
+<p>⚠️ = test passed under every fault that targets it${matrix.summary.notInjected.length > 0
+  ? `<br>Not injected (left out of the score): ${escapeHtml(matrix.summary.notInjected.join(', '))}`
+  : ''}</p>
+<table>
+<tr><th>Test</th>${header}</tr>
+${rows}
+</table>
+</body>
+</html>`;
+}
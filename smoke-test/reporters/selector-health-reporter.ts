@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+import type { SelectorProbe } from '../selectors/health';
+
+/**
+ * Selector health reporter
+ *
+ * Aggregates the selector probes attached at page checkpoints (see selectors/health.ts).
+ * An element that only matched through a fallback is "drifting": the primary selector stopped
+ * matching and the test is one UI change away from breaking. Writes selector-health.json and
+ * selector-health.md and warns about drifting elements; it never fails the run.
+ */
+
+export type ElementStatus = 'healthy' | 'drifting' | 'absent';
+
+export interface ElementHealth {
+  key: string;
+  primary: string;
+  status: ElementStatus;
+  probes: number;
+  primaryMatches: number;
+  fallbackMatches: number;
+  noMatches: number;
+  /** Fallback selector -> number of probes it matched */
+  fallbacks: Record<string, number>;
+  /** Tests in which the element matched on a fallback */
+  driftingIn: string[];
+}
+
+interface SelectorHealthReporterOptions {
+  outputDir?: string;
+}
+
+const ATTACHMENT = 'selector-health';
+
+export default class SelectorHealthReporter implements Reporter {
+  private readonly outputDir: string;
+  private readonly elements = new Map<string, ElementHealth>();
+
+  constructor(options: SelectorHealthReporterOptions = {}) {
+    this.outputDir = options.outputDir ?? 'test-results';
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const title = test.titlePath().slice(3).join(' › ');
+    for (const attachment of result.attachments.filter(candidate => candidate.name === ATTACHMENT && candidate.body)) {
+      for (const probe of JSON.parse((attachment.body as Buffer).toString('utf-8')) as SelectorProbe[]) {
+        this.record(probe, title);
+      }
+    }
+  }
+
+  onEnd(_result: FullResult): void {
+    if (this.elements.size === 0) {
+      return;
+    }
+
+    const elements = [...this.elements.values()].sort((a, b) => a.key.localeCompare(b.key));
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'selector-health.json'),
+      JSON.stringify({ generatedAt: new Date().toISOString(), elements }, null, 2));
+    fs.writeFileSync(path.join(this.outputDir, 'selector-health.md'), renderMarkdown(elements));
+
+    const count = (status: ElementStatus): number => elements.filter(element => element.status === status).length;
+    console.log(`\nSelector health: ${count('healthy')} healthy | ${count('drifting')} drifting | ${count('absent')} never matched`);
+    for (const element of elements.filter(candidate => candidate.status === 'drifting')) {
+      const message = `${element.key}: primary selector ${element.primary} did not match in ` +
+        `${element.fallbackMatches}/${element.probes} probes; matched ${Object.keys(element.fallbacks).join(', ')} instead`;
+      console.log(`  ⚠️  ${message}`);
+      if (process.env['GITHUB_ACTIONS']) {
+        console.log(`::warning title=Selector drift::${message}`);
+      }
+    }
+  }
+
+  private record(probe: SelectorProbe, test: string): void {
+    const element = this.elements.get(probe.key) ?? {
+      key: probe.key,
+      primary: probe.primary,
+      status: 'absent' as ElementStatus,
+      probes: 0,
+      primaryMatches: 0,
+      fallbackMatches: 0,
+      noMatches: 0,
+      fallbacks: {},
+      driftingIn: [],
+    };
+
+    element.probes++;
+    if (probe.matched === 0) {
+      element.primaryMatches++;
+    } else if (probe.matched === null || probe.selector === null) {
+      element.noMatches++;
+    } else {
+      element.fallbackMatches++;
+      element.fallbacks[probe.selector] = (element.fallbacks[probe.selector] ?? 0) + 1;
+      if (!element.driftingIn.includes(test)) {
+        element.driftingIn.push(test);
+      }
+    }
+
+    element.status = element.fallbackMatches > 0 ? 'drifting' : element.primaryMatches > 0 ? 'healthy' : 'absent';
+    this.elements.set(probe.key, element);
+  }
+}
+
+const STATUS_LABELS: Record<ElementStatus, string> = {
+  healthy: '✅ healthy',
+  drifting: '⚠️ drifting',
+  absent: '➖ never matched',
+};
+
+function renderMarkdown(elements: ElementHealth[]): string {
+  const rows = elements.map(element => {
+    const fallbacks = Object.entries(element.fallbacks).map(([selector, hits]) => `\`${selector}\` ×${hits}`).join(', ');
+    return `| \`${element.key}\` | ${STATUS_LABELS[element.status]} | \`${element.primary}\` | ` +
+      `${element.primaryMatches}/${element.probes} | ${fallbacks || '–'} |`;
+  });
+
+  return [
+    '# Selector Health',
+    '',
+    'Drifting elements matched only through a fallback selector; update the storefront or the selector profile.',
+    '',
+    '| Element | Status | Primary selector | Primary matches | Fallbacks matched |',
+    '| --- | --- | --- | --- | --- |',
+    ...rows,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,219 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FullResult, Reporter, TestCase, TestResult } from '@playwright/test/reporter';
+
+/**
+ * Smoke summary reporter
+ *
+ * Compares every test's duration against a per-test baseline and flags tests that slowed down
+ * past the tolerance. Writes smoke-summary.md and smoke-summary.json next to results.json.
+ * With updateBaseline set, a fully passing run rewrites the baseline instead of being compared.
+ */
+
+export interface DurationBaseline {
+  updatedAt: string;
+  /** Duration in ms keyed by "[project] describe › title" */
+  tests: Record<string, number>;
+}
+
+export type DurationVerdict = 'ok' | 'regressed' | 'improved' | 'new' | 'not-passed';
+
+export interface DurationEntry {
+  test: string;
+  status: TestResult['status'];
+  duration: number;
+  baseline: number | null;
+  /** Change relative to the baseline in percent, null without a baseline */
+  deltaPercent: number | null;
+  verdict: DurationVerdict;
+}
+
+export interface SmokeSummary {
+  generatedAt: string;
+  status: FullResult['status'];
+  baselineFile: string;
+  tolerance: number;
+  totalDuration: number;
+  baselineTotal: number;
+  tests: DurationEntry[];
+  regressions: string[];
+}
+
+interface SmokeSummaryReporterOptions {
+  baselineFile?: string;
+  outputDir?: string;
+  /** Allowed slowdown in percent */
+  tolerance?: number;
+  /** Slowdowns smaller than this many ms are never flagged, so fast tests don't flap */
+  minDeltaMs?: number;
+  updateBaseline?: boolean;
+}
+
+export default class SmokeSummaryReporter implements Reporter {
+  private readonly baselineFile: string;
+  private readonly outputDir: string;
+  private readonly tolerance: number;
+  private readonly minDeltaMs: number;
+  private readonly updateBaseline: boolean;
+  private readonly results = new Map<string, { status: TestResult['status']; duration: number }>();
+
+  constructor(options: SmokeSummaryReporterOptions = {}) {
+    this.baselineFile = options.baselineFile ?? 'smoke-test/baselines/local.json';
+    this.outputDir = options.outputDir ?? 'test-results';
+    this.tolerance = options.tolerance ?? 50;
+    this.minDeltaMs = options.minDeltaMs ?? 250;
+    this.updateBaseline = options.updateBaseline ?? false;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    // Retries overwrite earlier attempts so the final attempt is compared
+    this.results.set(testKey(test), { status: result.status, duration: result.duration });
+  }
+
+  onEnd(result: FullResult): void {
+    const baseline = readBaseline(this.baselineFile);
+
+    if (this.updateBaseline) {
+      this.writeBaseline(result, baseline);
+      return;
+    }
+
+    const summary = this.summarize(result, baseline);
+    fs.mkdirSync(this.outputDir, { recursive: true });
+    fs.writeFileSync(path.join(this.outputDir, 'smoke-summary.json'), JSON.stringify(summary, null, 2));
+    fs.writeFileSync(path.join(this.outputDir, 'smoke-summary.md'), renderMarkdown(summary));
+
+    console.log(`\nSmoke duration: ${formatDuration(summary.totalDuration)}` +
+      (summary.baselineTotal > 0 ? ` (baseline ${formatDuration(summary.baselineTotal)})` : ' (no baseline)'));
+    for (const entry of summary.tests.filter(candidate => candidate.verdict === 'regressed')) {
+      const message = `${entry.test} took ${formatDuration(entry.duration)}, ` +
+        `${formatDelta(entry.deltaPercent)} over its ${formatDuration(entry.baseline ?? 0)} baseline`;
+      console.log(`  ⚠️  ${message}`);
+      if (process.env['GITHUB_ACTIONS']) {
+        console.log(`::warning title=Duration regression::${message}`);
+      }
+    }
+  }
+
+  private summarize(result: FullResult, baseline: DurationBaseline | undefined): SmokeSummary {
+    const tests = [...this.results.entries()].map(([test, { status, duration }]) => {
+      const expected = baseline?.tests[test] ?? null;
+      return {
+        test,
+        status,
+        duration,
+        baseline: expected,
+        deltaPercent: expected ? Math.round(((duration - expected) / expected) * 100) : null,
+        verdict: this.verdict(status, duration, expected),
+      };
+    });
+
+    return {
+      generatedAt: new Date().toISOString(),
+      status: result.status,
+      baselineFile: this.baselineFile,
+      tolerance: this.tolerance,
+      totalDuration: tests.reduce((sum, entry) => sum + entry.duration, 0),
+      baselineTotal: tests.reduce((sum, entry) => sum + (entry.baseline ?? 0), 0),
+      tests,
+      regressions: tests.filter(entry => entry.verdict === 'regressed').map(entry => entry.test),
+    };
+  }
+
+  private verdict(status: TestResult['status'], duration: number, expected: number | null): DurationVerdict {
+    if (status !== 'passed') {
+      return 'not-passed';
+    }
+    if (expected === null) {
+      return 'new';
+    }
+
+    const delta = duration - expected;
+    if (delta > (expected * this.tolerance) / 100 && delta >= this.minDeltaMs) {
+      return 'regressed';
+    }
+    if (-delta > (expected * this.tolerance) / 100 && -delta >= this.minDeltaMs) {
+      return 'improved';
+    }
+    return 'ok';
+  }
+
+  /**
+   * Merge durations of passed tests into the baseline; only a fully passing run is trusted
+   */
+  private writeBaseline(result: FullResult, previous: DurationBaseline | undefined): void {
+    if (result.status !== 'passed') {
+      console.log(`\nDuration baseline not updated: run ${result.status}. Refresh it from a passing run.`);
+      return;
+    }
+
+    const tests: Record<string, number> = { ...previous?.tests };
+    for (const [test, { status, duration }] of this.results) {
+      if (status === 'passed') {
+        tests[test] = duration;
+      }
+    }
+
+    const baseline: DurationBaseline = { updatedAt: new Date().toISOString(), tests: sortKeys(tests) };
+    fs.mkdirSync(path.dirname(this.baselineFile), { recursive: true });
+    fs.writeFileSync(this.baselineFile, `${JSON.stringify(baseline, null, 2)}\n`);
+    console.log(`\nDuration baseline updated: ${this.baselineFile} (${Object.keys(tests).length} tests)`);
+  }
+}
+
+function testKey(test: TestCase): string {
+  // titlePath() is ['', project, file, ...describes, title]
+  return `[${test.parent.project()?.name ?? ''}] ${test.titlePath().slice(3).join(' › ')}`;
+}
+
+function readBaseline(file: string): DurationBaseline | undefined {
+  if (!fs.existsSync(file)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as DurationBaseline;
+}
+
+function sortKeys(record: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatDelta(percent: number | null): string {
+  if (percent === null) {
+    return '–';
+  }
+  return `${percent > 0 ? '+' : ''}${percent}%`;
+}
+
+const VERDICT_LABELS: Record<DurationVerdict, string> = {
+  'ok': '✅ ok',
+  'regressed': '⚠️ regressed',
+  'improved': '🚀 improved',
+  'new': '🆕 no baseline',
+  'not-passed': '❌ not passed',
+};
+
+function renderMarkdown(summary: SmokeSummary): string {
+  const rows = summary.tests.map(entry =>
+    `| ${entry.test} | ${entry.status} | ${formatDuration(entry.duration)} | ` +
+    `${entry.baseline === null ? '–' : formatDuration(entry.baseline)} | ${formatDelta(entry.deltaPercent)} | ${VERDICT_LABELS[entry.verdict]} |`
+  );
+
+  return [
+    '# Smoke Test Summary',
+    '',
+    `- Run status: **${summary.status}**`,
+    `- Total duration: ${formatDuration(summary.totalDuration)}` +
+      (summary.baselineTotal > 0 ? ` (baseline ${formatDuration(summary.baselineTotal)})` : ''),
+    `- Baseline: \`${summary.baselineFile}\`, tolerance ${summary.tolerance}%`,
+    `- Duration regressions: ${summary.regressions.length}`,
+    '',
+    '| Test | Status | Duration | Baseline | Δ | Verdict |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...rows,
+    '',
+  ].join('\n');
+}
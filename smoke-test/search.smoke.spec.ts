@@ -0,0 +1,57 @@
+import { mergeTests } from '@playwright/test';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as pageGuardTest } from './fixtures/page-guard';
+import { test as storefrontTest } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+import { TEST_DATA } from './utils/test-helpers';
+
+const test = mergeTests(storefrontTest, faultInjectionTest, pageGuardTest);
+
+/**
+ * Smoke Test Suite: Search
+ *
+ * Searches through the header search box like a shopper: a known product is found, a nonsense
+ * term shows the empty state, and the term is kept in the URL. A missing search box fails the suite.
+ * Runs once per configured channel (CHANNELS)
+ */
+
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - Search`, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('SE-001: Search box should be present on the homepage', async ({ homePage, searchPage }) => {
+      // Given: User opens the storefront
+      await homePage.goto();
+      await homePage.verifyHomepageLoaded();
+
+      // Then: The header offers product search
+      await searchPage.verifySearchAvailable();
+    });
+
+    test('SE-002: Searching a known product should list it', async ({ homePage, searchPage }) => {
+      // Given: User is on the homepage
+      await homePage.goto();
+
+      // When: User searches for a product the catalog is known to contain
+      const term = TEST_DATA.SAMPLE_PRODUCTS.MONOSPACE_TEE;
+      await searchPage.search(term);
+
+      // Then: The results page reflects the query and lists the product
+      await searchPage.verifySearchResultsLoaded(term);
+      await searchPage.verifyResultsContain(term);
+    });
+
+    test('SE-003: Searching a nonsense term should show the empty state', async ({ homePage, searchPage }) => {
+      // Given: User is on the homepage
+      await homePage.goto();
+
+      // When: User searches for a term no product matches
+      const term = TEST_DATA.SEARCH.NO_RESULTS_TERM;
+      await searchPage.search(term);
+
+      // Then: The results page reflects the query and shows no products
+      await searchPage.verifySearchResultsLoaded(term);
+      await searchPage.verifyNoResults();
+    });
+  });
+}
@@ -0,0 +1,63 @@
+import { Page, test } from '@playwright/test';
+import { SELECTOR_KEYS, SelectorKey, SelectorRegistry } from './registry';
+
+/**
+ * Selector health probing
+ * At page checkpoints each element of the page is probed alternative by alternative, so we know
+ * whether it matched on its primary selector or only on a looser fallback. Probes are attached to
+ * the test result and aggregated by the selector health reporter.
+ */
+
+export const SELECTOR_HEALTH_ATTACHMENT = 'selector-health';
+
+/** Page-level prefix of a selector key, e.g. 'cart' for 'cart.lineItem' */
+export type SelectorNamespace = SelectorKey extends `${infer Namespace}.${string}` ? Namespace : never;
+
+export interface SelectorProbe {
+  key: SelectorKey;
+  url: string;
+  /** The intended selector, normally a data-testid */
+  primary: string;
+  /** Index of the first alternative that matched; null when none did */
+  matched: number | null;
+  selector: string | null;
+}
+
+/**
+ * Probe every (non-templated) element of a namespace against the current page
+ */
+export async function probeSelectors(page: Page, registry: SelectorRegistry, namespace: SelectorNamespace): Promise<SelectorProbe[]> {
+  const keys = SELECTOR_KEYS.filter(key => key.startsWith(`${namespace}.`));
+  const probes: SelectorProbe[] = [];
+
+  for (const key of keys) {
+    const alternatives = registry.alternatives(key);
+    // Templated selectors depend on test data and can't be probed on their own
+    if (alternatives.some(selector => /\{\w+\}/.test(selector))) {
+      continue;
+    }
+
+    let matched: number | null = null;
+    for (const [index, selector] of alternatives.entries()) {
+      if (await page.locator(selector).count() > 0) {
+        matched = index;
+        break;
+      }
+    }
+    probes.push({ key, url: page.url(), primary: alternatives[0] ?? '', matched, selector: matched === null ? null : alternatives[matched] ?? null });
+  }
+  return probes;
+}
+
+/**
+ * Attach probes to the running test; a no-op outside of a test (e.g. in global setup)
+ */
+export async function recordSelectorProbes(probes: SelectorProbe[]): Promise<void> {
+  let info;
+  try {
+    info = test.info();
+  } catch {
+    return;
+  }
+  await info.attach(SELECTOR_HEALTH_ATTACHMENT, { body: JSON.stringify(probes), contentType: 'application/json' });
+}
@@ -0,0 +1,240 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Locator, Page } from '@playwright/test';
+import { getConfig } from '../config/test-config';
+
+/**
+ * Selector registry
+ *
+ * Page objects look elements up by logical name (e.g. 'cart.lineItem') instead of hardcoding
+ * selectors. The selectors come from a JSON profile per storefront flavour in
+ * smoke-test/selectors/profiles/, chosen with SELECTOR_PROFILE. A profile may `extend` another
+ * and override only the elements that differ, e.g. for a customised fork of the storefront.
+ */
+
+export const SELECTOR_KEYS = [
+  'home.logo',
+  'home.navigation',
+  'home.categoryLink',
+  'home.collectionLink',
+  'home.productList',
+  'home.productCard',
+  'home.searchInput',
+  'home.cartIcon',
+  'home.cartBadge',
+  'home.signIn',
+  'home.userMenu',
+  'home.footer',
+  'page.notFound',
+  'search.title',
+  'search.resultList',
+  'search.result',
+  'search.resultName',
+  'search.empty',
+  'listing.title',
+  'listing.productList',
+  'listing.productCard',
+  'listing.productName',
+  'listing.nextPage',
+  'listing.loadMore',
+  'listing.empty',
+  'product.title',
+  'product.price',
+  'product.description',
+  'product.image',
+  'product.gallery',
+  'product.variantSelector',
+  'product.variantAttribute',
+  'product.variantAttributeName',
+  'product.variantOption',
+  'product.sizeOption',
+  'product.colorOption',
+  'product.quantity',
+  'product.addToCart',
+  'product.addedConfirmation',
+  'product.breadcrumb',
+  'product.back',
+  'cart.title',
+  'cart.lineItem',
+  'cart.lineItemName',
+  'cart.lineItemPrice',
+  'cart.lineItemTotal',
+  'cart.lineItemQuantity',
+  'cart.total',
+  'cart.subtotal',
+  'cart.summary',
+  'cart.checkout',
+  'cart.continueShopping',
+  'cart.empty',
+  'cart.removeItem',
+  'cart.updateQuantity',
+  'login.email',
+  'login.password',
+  'login.submit',
+  'login.error',
+  'account.title',
+  'account.name',
+  'account.email',
+  'account.ordersLink',
+  'account.addressesLink',
+  'orderHistory.title',
+  'orderHistory.orderRow',
+  'orderHistory.orderNumber',
+  'orderHistory.empty',
+  'orderHistory.detailsTitle',
+  'orderHistory.orderLine',
+  'orderHistory.total',
+  'addressBook.title',
+  'addressBook.addressCard',
+  'addressBook.empty',
+  'checkout.title',
+  'checkout.loginSection',
+  'checkout.signIn',
+  'checkout.signOut',
+  'checkout.email',
+  'checkout.password',
+  'checkout.loginButton',
+  'checkout.shippingAddress',
+  'checkout.billingAddress',
+  'checkout.useSameAddress',
+  'checkout.savedAddress',
+  'checkout.addressField',
+  'checkout.addressFieldError',
+  'checkout.deliveryMethods',
+  'checkout.deliveryMethod',
+  'checkout.payment',
+  'checkout.paymentGateway',
+  'checkout.orderSummary',
+  'checkout.subtotal',
+  'checkout.shippingCost',
+  'checkout.tax',
+  'checkout.total',
+  'checkout.makePayment',
+  'checkout.errors',
+  'checkout.orderConfirmation',
+  'checkout.orderNumber',
+] as const;
+
+export type SelectorKey = typeof SELECTOR_KEYS[number];
+
+/**
+ * Shape of a profile JSON file
+ * Each element lists alternative selectors, tried together as one selector list.
+ * `{name}` placeholders are filled from the params passed to css()/locator().
+ */
+export interface SelectorProfile {
+  name: string;
+  description?: string;
+  /** Profile name or path this profile inherits selectors from */
+  extends?: string;
+  selectors: Partial<Record<string, string[]>>;
+}
+
+export type SelectorParams = Record<string, string | number>;
+
+export class SelectorProfileError extends Error {
+  constructor(public readonly profile: string, public readonly problems: string[]) {
+    super(`Invalid selector profile "${profile}":\n  - ${problems.join('\n  - ')}`);
+    this.name = 'SelectorProfileError';
+  }
+}
+
+export const SELECTOR_PROFILE_DIR = 'smoke-test/selectors/profiles';
+
+/**
+ * Resolve a profile name (e.g. 'saleor-storefront') or a path to a .json file
+ */
+export function resolveProfilePath(profile: string, relativeTo = process.cwd()): string {
+  return profile.endsWith('.json')
+    ? path.resolve(relativeTo, profile)
+    : path.resolve(process.cwd(), SELECTOR_PROFILE_DIR, `${profile}.json`);
+}
+
+function readProfile(file: string, seen: string[] = []): Record<string, string[]> {
+  if (seen.includes(file)) {
+    throw new SelectorProfileError(file, [`circular extends: ${[...seen, file].join(' -> ')}`]);
+  }
+  if (!fs.existsSync(file)) {
+    throw new SelectorProfileError(file, ['profile file not found']);
+  }
+
+  const profile = JSON.parse(fs.readFileSync(file, 'utf-8')) as SelectorProfile;
+  const inherited = profile.extends ? readProfile(resolveProfilePath(profile.extends, path.dirname(file)), [...seen, file]) : {};
+  return { ...inherited, ...definedSelectors(profile.selectors) };
+}
+
+function definedSelectors(selectors: SelectorProfile['selectors']): Record<string, string[]> {
+  return Object.fromEntries(Object.entries(selectors).filter((entry): entry is [string, string[]] => entry[1] !== undefined));
+}
+
+export class SelectorRegistry {
+  private constructor(public readonly profile: string, private readonly selectors: Record<SelectorKey, string[]>) {}
+
+  /**
+   * Load and validate a profile; every key must be defined and no unknown keys are allowed
+   */
+  static load(profile: string): SelectorRegistry {
+    const selectors = readProfile(resolveProfilePath(profile));
+    const problems = [
+      ...SELECTOR_KEYS.filter(key => !selectors[key]?.length).map(key => `missing selectors for "${key}"`),
+      ...Object.keys(selectors)
+        .filter(key => !(SELECTOR_KEYS as readonly string[]).includes(key))
+        .map(key => `unknown element "${key}"`),
+    ];
+    if (problems.length > 0) {
+      throw new SelectorProfileError(profile, problems);
+    }
+    return new SelectorRegistry(profile, selectors as Record<SelectorKey, string[]>);
+  }
+
+  /**
+   * Alternative selectors for an element, in priority order
+   */
+  alternatives(key: SelectorKey, params: SelectorParams = {}): string[] {
+    return this.selectors[key].map(selector =>
+      selector.replace(/\{(\w+)\}/g, (placeholder, name: string) => String(params[name] ?? placeholder))
+    );
+  }
+
+  /**
+   * All alternatives joined into one selector list
+   */
+  css(key: SelectorKey, params: SelectorParams = {}): string {
+    return this.alternatives(key, params).join(', ');
+  }
+
+  /**
+   * Locator for an element within a page or another locator
+   */
+  locator(root: Page | Locator, key: SelectorKey, params: SelectorParams = {}): Locator {
+    return root.locator(this.css(key, params));
+  }
+
+  /**
+   * Locator for the first alternative that matches anything within the root
+   * Use it to scope inside an element: broad fallbacks such as :has-text() also match every ancestor
+   */
+  async resolve(root: Page | Locator, key: SelectorKey, params: SelectorParams = {}): Promise<Locator> {
+    for (const selector of this.alternatives(key, params)) {
+      const locator = root.locator(selector);
+      if (await locator.count() > 0) {
+        return locator;
+      }
+    }
+    return this.locator(root, key, params);
+  }
+}
+
+const cachedRegistries = new Map<string, SelectorRegistry>();
+
+/**
+ * Registry for a profile, by default the configured SELECTOR_PROFILE (loaded once per process)
+ */
+export function getSelectorRegistry(profile = getConfig().selectorProfile): SelectorRegistry {
+  let registry = cachedRegistries.get(profile);
+  if (!registry) {
+    registry = SelectorRegistry.load(profile);
+    cachedRegistries.set(profile, registry);
+  }
+  return registry;
+}
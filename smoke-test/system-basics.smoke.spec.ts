@@ -1,8 +1,14 @@
-import { test, expect } from '@playwright/test';
-import { HomePage } from './page-objects/HomePage';
-import { ProductPage } from './page-objects/ProductPage';
-import { CartPage } from './page-objects/CartPage';
-import { CheckoutPage } from './page-objects/CheckoutPage';
+import { mergeTests } from '@playwright/test';
+import { test as checkoutStateTest } from './fixtures/checkout-state';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as pageGuardTest } from './fixtures/page-guard';
+import { test as performanceTest } from './fixtures/performance';
+import { test as storefrontTest } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+import { TEST_DATA } from './utils/test-helpers';
+import { softCheck } from './utils/degraded';
+
+const test = mergeTests(storefrontTest, checkoutStateTest, faultInjectionTest, pageGuardTest, performanceTest);
 
 /**
  * Smoke Test Suite: System Basic Functionality Verification
@@ -14,155 +20,158 @@ import { CheckoutPage } from './page-objects/CheckoutPage';
  * 3. Add to cart functionality
  * 4. Cart page displays items
  * 5. Checkout page is accessible
+ *
+ * Every test is repeated for each channel listed in CHANNELS
  */
 
-test.describe('Saleor Storefront - System Basic Functionality', () => {
-  let homePage: HomePage;
-  let productPage: ProductPage;
-  let cartPage: CartPage;
-  let checkoutPage: CheckoutPage;
-
-  test.beforeEach(async ({ page }) => {
-    // Initialize page objects
-    homePage = new HomePage(page);
-    productPage = new ProductPage(page);
-    cartPage = new CartPage(page);
-    checkoutPage = new CheckoutPage(page);
-
-    // Set shorter timeout for fast smoke tests
-    test.setTimeout(30000);
-  });
+// The suite runs once per configured channel (CHANNELS)
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - System Basic Functionality`, () => {
+    // Page object fixtures are bound to this channel
+    test.use({ storefrontChannel: channel });
 
-  test('TC-001: Storefront homepage should load successfully and display products', async () => {
-    // Given: Saleor platform is running on localhost:3000 (see README.md -> Quick Start -> Prerequisites)
-    // When: User accesses storefront homepage
-    await homePage.goto();
+    test('TC-001: Storefront homepage should load successfully and display products', async ({ homePage, measurePerformance }) => {
+      // Given: Saleor platform is running at BASE_URL (see README.md -> Quick Start -> Prerequisites)
+      // When: User accesses storefront homepage
+      await homePage.goto();
 
-    // Then: Page should load successfully and display product list
-    await homePage.verifyHomepageLoaded();
-    
-    // Take screenshot for verification
-    await homePage.takeScreenshot('homepage-loaded');
-  });
+      // Then: Page should load successfully and display product list
+      await homePage.verifyHomepageLoaded();
+      await measurePerformance('home');
 
-  test('TC-002: Product detail page should display correctly when clicking a product', async () => {
-    // Given: Storefront homepage is loaded
-    await homePage.goto();
-    await homePage.verifyHomepageLoaded();
+      // Take screenshot for verification
+      await homePage.takeScreenshot('homepage-loaded');
+    });
 
-    // When: User clicks on any product
-    await homePage.clickFirstProduct();
+    test('TC-002: Product detail page should display correctly when clicking a product', async ({ page, homePage, productPage, measurePerformance }) => {
+      // Given: Storefront homepage is loaded
+      await homePage.goto();
+      await homePage.verifyHomepageLoaded();
 
-    // Then: Product detail page should display product information and price
-    await productPage.verifyProductPageLoaded();
-    await productPage.verifyProductInformation();
-    
-    // Take screenshot for verification
-    await productPage.takeScreenshot('product-detail-page');
-  });
+      // When: User clicks on any product
+      await homePage.clickFirstProduct();
+
+      // Then: Product detail page should display product information and price
+      await productPage.verifyProductPageLoaded();
+      await productPage.verifyProductInformation();
 
-  test('TC-003: Add to cart functionality should work correctly', async () => {
-    // Given: User is on product detail page
-    await homePage.goto();
-    await homePage.clickFirstProduct();
-    await productPage.verifyProductPageLoaded();
+      // The click was a client-side navigation whose timings still describe the homepage,
+      // so the budget is checked against a full load of the product URL
+      await page.goto(page.url());
+      await productPage.verifyProductPageLoaded();
+      await measurePerformance('product');
+
+      // Take screenshot for verification
+      await productPage.takeScreenshot('product-detail-page');
+    });
+
+    test('TC-003: Add to cart functionality should work correctly', async ({ homePage, productPage }) => {
+      // Given: User is on product detail page
+      await homePage.goto();
+      await homePage.clickFirstProduct();
+      await productPage.verifyProductPageLoaded();
 
-    try {
       // When: User selects product specs and clicks "Add to Cart"
-      await productPage.addToCartWithSpecs('S', 1);
+      // A failure here is reported as degraded rather than skipping the test
+      const added = await softCheck('Add to cart with specs', () => productPage.addToCartWithSpecs('S', 1));
 
       // Then: Cart icon should show updated quantity
       await homePage.goto(); // Navigate back to homepage to check cart badge
-      
-      // Verify cart badge updates
-      await homePage.waitForCartBadge(3000);
-      
+
+      if (added) {
+        // Verify cart badge updates; a missing badge marks the test degraded
+        await homePage.waitForCartBadge(3000);
+      }
+
       // Take screenshot for verification
-      await homePage.takeScreenshot('cart-updated');
-    } catch (error) {
-      // For smoke test, if add to cart fails, we log it but don't fail the test
-      console.log('Add to cart failed (acceptable for smoke test):', error.message);
-      await homePage.takeScreenshot('add-to-cart-failed');
-      
-      // Skip this specific assertion but don't fail the entire test suite
-      test.skip(!!error, 'Add to cart functionality requires product variant selection');
-    }
-  });
+      await homePage.takeScreenshot(added ? 'cart-updated' : 'add-to-cart-failed');
+    });
 
-  test('TC-004: Cart page should be accessible and functional', async () => {
-    // When: User navigates to cart page directly
-    await cartPage.goto();
-
-    // Then: Cart page should load successfully
-    await cartPage.verifyCartPageLoaded();
-    
-    // For smoke test, we just verify the cart page loads
-    // The cart might be empty, which is acceptable for basic functionality test
-    const isEmpty = await cartPage.isCartEmpty();
-    console.log(`Cart is ${isEmpty ? 'empty' : 'not empty'} - both states are acceptable for smoke test`);
-    
-    // Take screenshot for verification
-    await cartPage.takeScreenshot('cart-page-loaded');
-  });
+    test('TC-004: Cart page should be accessible and functional', async ({ cartPage, seedCheckout, measurePerformance }) => {
+      // Given: A checkout with a known product has been created through the API
+      const { productNames } = await seedCheckout({
+        channel,
+        lines: [{ productSlug: TEST_DATA.SAMPLE_PRODUCTS.MONOSPACE_TEE_SLUG }],
+      });
 
-  test('TC-005: Checkout page should be accessible', async () => {
-    // When: User navigates directly to checkout page
-    await checkoutPage.goto();
-
-    // Then: Checkout page should load successfully
-    await checkoutPage.verifyCheckoutPageLoaded();
-    
-    // For smoke test, we just verify the checkout page loads
-    // It may show empty cart or require login, both are acceptable
-    
-    // Take screenshot for verification
-    await checkoutPage.takeScreenshot('checkout-page-accessible');
-  });
+      // When: User navigates to cart page directly
+      await cartPage.goto();
 
-  test('TC-006: Complete navigation journey - All pages accessible', async () => {
-    // This test verifies all major pages are accessible in sequence
-    
-    // Step 1: Load homepage
-    await homePage.goto();
-    await homePage.verifyHomepageLoaded();
-
-    // Step 2: Navigate to product
-    await homePage.clickFirstProduct();
-    await productPage.verifyProductPageLoaded();
-
-    // Step 3: Navigate to cart
-    await cartPage.goto();
-    await cartPage.verifyCartPageLoaded();
-
-    // Step 4: Navigate to checkout
-    await checkoutPage.goto();
-    await checkoutPage.verifyCheckoutPageLoaded();
-
-    // Step 5: Return to homepage
-    await homePage.goto();
-    await homePage.verifyHomepageLoaded();
-    
-    // Take final screenshot
-    await homePage.takeScreenshot('complete-navigation-journey-success');
-  });
+      // Then: Cart page should load and show the seeded item
+      await cartPage.verifyCartPageLoaded();
+      await cartPage.verifyCartHasItems();
+      await cartPage.verifyItemInCart(productNames[0] as string);
+      await measurePerformance('cart');
+
+      // Take screenshot for verification
+      await cartPage.takeScreenshot('cart-page-loaded');
+    });
+
+    test('TC-005: Checkout page should be accessible', async ({ checkoutPage, seedCheckout, measurePerformance }) => {
+      // Given: A checkout with a known product has been created through the API
+      const { checkout, productNames } = await seedCheckout({
+        channel,
+        lines: [{ productSlug: TEST_DATA.SAMPLE_PRODUCTS.MONOSPACE_TEE_SLUG }],
+      });
 
-  test('TC-007: Basic navigation and UI elements verification', async () => {
-    // Given: User accesses the storefront
-    await homePage.goto();
-
-    // Then: Essential UI elements should be present
-    await homePage.verifyHomepageLoaded();
-    
-    // Verify navigation elements if they exist
-    await homePage.verifyNavigationVisible();
-    
-    // Verify footer if it exists
-    await homePage.verifyFooterVisible();
-    
-    // Take screenshot for verification
-    await homePage.takeScreenshot('ui-elements-verification');
+      // When: User navigates directly to checkout page
+      await checkoutPage.goto(checkout.id);
+
+      // Then: Checkout page should load and summarise the seeded item
+      await checkoutPage.verifyCheckoutPageLoaded();
+      await checkoutPage.verifyOrderSummary();
+      await checkoutPage.verifyOrderSummaryContainsItem(productNames[0] as string);
+      await measurePerformance('checkout');
+
+      // Take screenshot for verification
+      await checkoutPage.takeScreenshot('checkout-page-accessible');
+    });
+
+    test('TC-006: Complete navigation journey - All pages accessible', async ({ homePage, productPage, cartPage, checkoutPage }) => {
+      // This test verifies all major pages are accessible in sequence
+
+      // Step 1: Load homepage
+      await homePage.goto();
+      await homePage.verifyHomepageLoaded();
+
+      // Step 2: Navigate to product
+      await homePage.clickFirstProduct();
+      await productPage.verifyProductPageLoaded();
+
+      // Step 3: Navigate to cart
+      await cartPage.goto();
+      await cartPage.verifyCartPageLoaded();
+
+      // Step 4: Navigate to checkout
+      await checkoutPage.goto();
+      await checkoutPage.verifyCheckoutPageLoaded();
+
+      // Step 5: Return to homepage
+      await homePage.goto();
+      await homePage.verifyHomepageLoaded();
+
+      // Take final screenshot
+      await homePage.takeScreenshot('complete-navigation-journey-success');
+    });
+
+    test('TC-007: Basic navigation and UI elements verification', async ({ homePage }) => {
+      // Given: User accesses the storefront
+      await homePage.goto();
+
+      // Then: Essential UI elements should be present
+      await homePage.verifyHomepageLoaded();
+
+      // Verify navigation elements if they exist
+      await homePage.verifyNavigationVisible();
+
+      // Verify footer if it exists
+      await homePage.verifyFooterVisible();
+
+      // Take screenshot for verification
+      await homePage.takeScreenshot('ui-elements-verification');
+    });
   });
-});
+}
 
 // Additional test configuration for smoke tests
 test.describe.configure({ 
@@ -0,0 +1,51 @@
+import { AddressInput } from '../api/types';
+
+/**
+ * Valid addresses per country, accepted by Saleor's address validation
+ * Each one exercises a different rule set: US needs a state, PL uses NN-NNN postal codes,
+ * GB alphanumeric postcodes and DE five-digit postal codes without a country area
+ */
+
+export type AddressCountry = 'US' | 'DE' | 'PL' | 'GB';
+
+export const ADDRESSES: Record<AddressCountry, AddressInput> = {
+  US: {
+    firstName: 'Smoke',
+    lastName: 'Tester',
+    streetAddress1: '1470 Pinewood Avenue',
+    city: 'Michigan City',
+    postalCode: '46360',
+    country: 'US',
+    countryArea: 'IN',
+    phone: '+12025550123',
+  },
+  DE: {
+    firstName: 'Smoke',
+    lastName: 'Tester',
+    streetAddress1: 'Friedrichstraße 123',
+    city: 'Berlin',
+    postalCode: '10117',
+    country: 'DE',
+    phone: '+4930901820',
+  },
+  PL: {
+    firstName: 'Smoke',
+    lastName: 'Tester',
+    streetAddress1: 'ul. Marszałkowska 1',
+    city: 'Warszawa',
+    postalCode: '00-624',
+    country: 'PL',
+    phone: '+48225551234',
+  },
+  GB: {
+    firstName: 'Smoke',
+    lastName: 'Tester',
+    streetAddress1: '10 Downing Street',
+    city: 'London',
+    postalCode: 'SW1A 2AA',
+    country: 'GB',
+    phone: '+442079460000',
+  },
+};
+
+export const ADDRESS_COUNTRIES = Object.keys(ADDRESSES) as AddressCountry[];
@@ -0,0 +1,180 @@
+/**
+ * Money parsed from storefront price text
+ * Amounts are kept in minor units (cents, groszy) so sums and multiplications are exact.
+ */
+
+// Longer symbols first so "R$" is not read as "$"
+const CURRENCY_SYMBOLS: Array<[string, string]> = [
+  ['zł', 'PLN'],
+  ['R$', 'BRL'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['$', 'USD'],
+];
+
+const ISO_CURRENCY_CODES = new Set(Intl.supportedValuesOf('currency'));
+
+const AMOUNT = String.raw`\d(?:[\d\s.,']*\d)?`;
+const SYMBOLS = CURRENCY_SYMBOLS.map(([symbol]) => symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+
+// An amount with a currency code or symbol right before ("$1,234.56", "PLN 12,00") or after it ("1.234,56 zł")
+const PRICE_PATTERN = new RegExp(
+  String.raw`(?<before>\b[A-Z]{3}|${SYMBOLS})\s?(?<amount>${AMOUNT})|(?<amountBefore>${AMOUNT})\s?(?<after>(?:[A-Z]{3}|${SYMBOLS})(?![A-Za-z]))`,
+  'g'
+);
+
+export interface MoneyParseOptions {
+  /** Locale the text was formatted in, e.g. 'pl-PL'; separators are inferred from the text when omitted */
+  locale?: string;
+  /** Currency of the text; detected from its ISO code or symbol when omitted ("$" reads as USD) */
+  currency?: string;
+}
+
+export class MoneyParseError extends Error {
+  constructor(public readonly text: string, reason: string) {
+    super(`Cannot parse price "${text}": ${reason}`);
+    this.name = 'MoneyParseError';
+  }
+}
+
+export class Money {
+  private constructor(
+    /** Amount in the currency's minor unit, e.g. cents */
+    public readonly minorUnits: number,
+    /** ISO 4217 currency code */
+    public readonly currency: string
+  ) {}
+
+  static of(amount: number, currency: string): Money {
+    const code = currency.toUpperCase();
+    return new Money(Math.round(amount * 10 ** fractionDigits(code)), code);
+  }
+
+  static zero(currency: string): Money {
+    return Money.of(0, currency);
+  }
+
+  /**
+   * Parse a price as the storefront shows it, e.g. "$1,234.56", "1.234,56 zł", "12 345,00 PLN" or "-€5"
+   * The amount is the one next to an ISO 4217 code or currency symbol, so "2 × $10.00 incl. VAT" is $10.00;
+   * text without either is only accepted when `currency` is given
+   */
+  static parse(text: string, options: MoneyParseOptions = {}): Money {
+    const price = findPrice(text);
+    const currency = (options.currency ?? price?.currency)?.toUpperCase();
+    if (!currency) {
+      throw new MoneyParseError(text, 'no currency code or symbol next to an amount');
+    }
+
+    const number = price?.amount ?? text.match(new RegExp(AMOUNT))?.[0];
+    if (!number) {
+      throw new MoneyParseError(text, 'no amount');
+    }
+
+    const digits = fractionDigits(currency);
+    const normalized = options.locale ? normalizeForLocale(number, options.locale) : normalizeBySeparators(number, digits);
+    const amount = Number(normalized);
+    if (!Number.isFinite(amount)) {
+      throw new MoneyParseError(text, `"${number}" is not a number`);
+    }
+
+    // A minus right before the amount or its symbol: "-$5.00", "−5,00 zł" (not the dash in "Tee × 1 - $20.00")
+    const negative = /(^|\s)[-−][^\s\d]*$/.test(text.slice(0, price?.index ?? text.indexOf(number)));
+    return new Money(Math.round(amount * 10 ** digits) * (negative ? -1 : 1), currency);
+  }
+
+  /**
+   * Sum of the amounts; `currency` is the result for an empty list
+   */
+  static sum(values: Money[], currency: string): Money {
+    return values.reduce((total, value) => total.plus(value), Money.zero(currency));
+  }
+
+  get amount(): number {
+    return this.minorUnits / 10 ** fractionDigits(this.currency);
+  }
+
+  plus(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.minorUnits + other.minorUnits, this.currency);
+  }
+
+  times(quantity: number): Money {
+    return new Money(Math.round(this.minorUnits * quantity), this.currency);
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.minorUnits === other.minorUnits;
+  }
+
+  /**
+   * Format for display, e.g. "$1,234.56" for en-US
+   */
+  format(locale = 'en-US'): string {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency: this.currency }).format(this.amount);
+  }
+
+  toString(): string {
+    return `${this.amount.toFixed(fractionDigits(this.currency))} ${this.currency}`;
+  }
+
+  toJSON(): { amount: number; currency: string } {
+    return { amount: this.amount, currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new Error(`Cannot combine ${this.currency} and ${other.currency} amounts`);
+    }
+  }
+}
+
+function fractionDigits(currency: string): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * First amount in the text with a known currency code or symbol next to it; other capitalised
+ * words ("incl. VAT") and bare numbers ("2 ×") are skipped
+ */
+function findPrice(text: string): { amount: string; index: number; currency: string } | undefined {
+  for (const match of text.matchAll(PRICE_PATTERN)) {
+    const token = match.groups?.['before'] ?? match.groups?.['after'] ?? '';
+    const amount = match.groups?.['amount'] ?? match.groups?.['amountBefore'] ?? '';
+    const currency = CURRENCY_SYMBOLS.find(([symbol]) => symbol === token)?.[1]
+      ?? (ISO_CURRENCY_CODES.has(token) ? token : undefined);
+    if (currency && amount) {
+      return { amount, index: (match.index ?? 0) + match[0].indexOf(amount), currency };
+    }
+  }
+  return undefined;
+}
+
+function normalizeForLocale(number: string, locale: string): string {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  const group = parts.find(part => part.type === 'group')?.value ?? ',';
+  const decimal = parts.find(part => part.type === 'decimal')?.value ?? '.';
+  // Locales grouping with a (non-breaking) space accept any whitespace as the group separator
+  const withoutGroups = /\s/.test(group) ? number.replace(/\s/g, '') : number.split(group).join('');
+  return withoutGroups.split(decimal).join('.');
+}
+
+/**
+ * Without a locale, the last "." or "," is the decimal separator unless it is repeated
+ * or followed by exactly three digits in a currency without three decimals ("1,234" is 1234)
+ */
+function normalizeBySeparators(number: string, digits: number): string {
+  const compact = number.replace(/[\s']/g, '');
+  const last = Math.max(compact.lastIndexOf('.'), compact.lastIndexOf(','));
+  if (last < 0) {
+    return compact;
+  }
+
+  const separator = compact.charAt(last);
+  const decimals = compact.length - last - 1;
+  const isDecimal = compact.split(separator).length === 2 && (decimals !== 3 || digits === 3);
+  const integer = (isDecimal ? compact.slice(0, last) : compact).replace(/[.,]/g, '');
+  return isDecimal ? `${integer}.${compact.slice(last + 1)}` : integer;
+}
@@ -1,4 +1,7 @@
 import { Page, expect } from '@playwright/test';
+import { getConfig } from '../config/test-config';
+import { ADDRESSES } from './addresses';
+import { WebVitals, collectWebVitals } from '../performance/web-vitals';
 
 /**
  * Test helper utilities for Saleor smoke tests
@@ -73,32 +76,27 @@ export class TestHelpers {
   }
 
   /**
-   * Get page performance metrics
+   * Get Web Vitals for the current page (see performance/web-vitals.ts)
    */
-  async getPerformanceMetrics(): Promise<any> {
-    return await this.page.evaluate(() => {
-      const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming;
-      return {
-        domContentLoaded: navigation.domContentLoadedEventEnd - navigation.domContentLoadedEventStart,
-        loadComplete: navigation.loadEventEnd - navigation.loadEventStart,
-        totalTime: navigation.loadEventEnd - navigation.fetchStart
-      };
-    });
+  async getPerformanceMetrics(): Promise<WebVitals> {
+    return collectWebVitals(this.page);
   }
 
   /**
-   * Check console errors
+   * Absolute URLs of the links on the current page that stay on the page's origin, without #fragments
    */
-  async checkConsoleErrors(): Promise<string[]> {
-    const errors: string[] = [];
-    
-    this.page.on('console', msg => {
-      if (msg.type() === 'error') {
-        errors.push(msg.text());
-      }
-    });
-
-    return errors;
+  async getSameOriginLinks(): Promise<string[]> {
+    const hrefs = await this.page.locator('a[href]').evaluateAll(anchors =>
+      anchors.map(anchor => (anchor as HTMLAnchorElement).href));
+    const origin = new URL(this.page.url()).origin;
+    const links = hrefs
+      .map(href => new URL(href))
+      .filter(url => url.origin === origin && (url.protocol === 'http:' || url.protocol === 'https:'))
+      .map(url => {
+        url.hash = '';
+        return url.toString();
+      });
+    return [...new Set(links)];
   }
 
   /**
@@ -170,13 +168,6 @@ export class GlobalTestUtils {
     return Math.random().toString(36).substring(2, length + 2);
   }
 
-  /**
-   * Format currency for comparison
-   */
-  static formatCurrency(amount: string): string {
-    return amount.replace(/[^\d.,]/g, '').trim();
-  }
-
   /**
    * Wait for specified duration
    */
@@ -210,17 +201,31 @@ export class GlobalTestUtils {
  * Test data constants
  */
 export const TEST_DATA = {
-  DEFAULT_USER: {
-    email: 'admin@example.com',
-    password: 'admin'
-  },
+  USERS: getConfig().users,
   
   SAMPLE_PRODUCTS: {
     MONOSPACE_TEE: 'Monospace Tee',
+    MONOSPACE_TEE_SLUG: 'monospace-tee',
     DEFAULT_SIZE: 'S',
     DEFAULT_QUANTITY: 1
   },
   
+  BROWSE: {
+    CATEGORY_SLUG: 't-shirts',
+    COLLECTION_SLUG: 'featured-products',
+    // Upper bound on listing pages followed, in case pagination never ends
+    MAX_PAGES: 10
+  },
+  
+  SEARCH: {
+    NO_RESULTS_TERM: 'qwxzv-no-such-product'
+  },
+  
+  GUEST_CHECKOUT: {
+    SHIPPING_ADDRESS: ADDRESSES.US,
+    DELIVERY_METHOD: 'Standard'
+  },
+  
   TIMEOUTS: {
     SHORT: 5000,
     MEDIUM: 10000,
@@ -0,0 +1,46 @@
+import { mergeTests } from '@playwright/test';
+import { test as checkoutStateTest } from './fixtures/checkout-state';
+import { test as faultInjectionTest } from './fixtures/fault-injection';
+import { test as storefrontTest, expect } from './fixtures/storefront';
+import { getConfig } from './config/test-config';
+import { checkVariantModel, matrixProducts, recordVariantMatrix, VariantMatrixResult } from './variant-matrix/variant-matrix';
+
+const test = mergeTests(storefrontTest, checkoutStateTest, faultInjectionTest);
+
+/**
+ * Variant Matrix (VARIANT_MATRIX=true, npm run test:variant-matrix)
+ *
+ * Selects every combination of attribute values on each product page and checks it against the API:
+ * the price follows the selection, sold out variants disable add to cart and the ?variant= query parameter
+ * names the selected variant. Checks VARIANT_MATRIX_PRODUCTS, or every product with more than one variant.
+ * Only runs in variant matrix mode; regular runs ignore this file.
+ * Runs once per configured channel (CHANNELS)
+ */
+
+for (const channel of getConfig().channels) {
+  test.describe(`Saleor Storefront [${channel}] - Variant Matrix`, () => {
+    test.use({ storefrontChannel: channel });
+
+    test('VM-001: Every variant combination should show its price, availability and variant URL', async ({ saleorApi, productPage }) => {
+      const { timeouts, variantMatrix } = getConfig();
+
+      // Given: The products offering a choice of variants
+      const products = await matrixProducts(saleorApi, channel, variantMatrix.products);
+      expect(products.length, 'the channel should have products with a choice of variants').toBeGreaterThan(0);
+
+      // When: Every combination of attribute values is selected on each product page
+      test.setTimeout(timeouts.test * (2 + products.length));
+      const results: VariantMatrixResult[] = [];
+      for (const product of products) {
+        await productPage.goto(product.slug);
+        await productPage.verifyProductPageLoaded();
+        const model = await productPage.readVariantModel();
+        results.push({ channel, slug: product.slug, name: product.name, model, problems: checkVariantModel(product, model) });
+      }
+      await recordVariantMatrix(results);
+
+      // Then: The page agrees with the API for every combination
+      expect(results.flatMap(result => result.problems.map(problem => `${result.name}: ${problem}`))).toEqual([]);
+    });
+  });
+}
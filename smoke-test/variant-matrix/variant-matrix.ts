@@ -0,0 +1,101 @@
+import { test } from '@playwright/test';
+import type { SaleorApiClient } from '../api/SaleorApiClient';
+import type { ProductDetail, ProductVariant } from '../api/types';
+import type { VariantCombination, VariantModel } from '../page-objects/ProductPage';
+import { Money } from '../utils/money';
+
+/**
+ * Variant matrix
+ * Compares what the product page shows for every combination of attribute values (see
+ * ProductPage.readVariantModel) with the product's variants as returned by the Saleor API.
+ */
+
+export const VARIANT_MATRIX_ATTACHMENT = 'variant-matrix';
+
+export interface VariantMatrixResult {
+  channel: string;
+  slug: string;
+  name: string;
+  model: VariantModel;
+  problems: string[];
+}
+
+/**
+ * Products to check: the given slugs, or every product in the channel with a choice of variants
+ */
+export async function matrixProducts(api: SaleorApiClient, channel: string, slugs: string[]): Promise<ProductDetail[]> {
+  const candidates = slugs.length > 0 ? slugs : (await api.products(channel, 100)).map(product => product.slug);
+  const products: ProductDetail[] = [];
+  for (const slug of candidates) {
+    const product = await api.product(slug, channel);
+    if (!product) {
+      throw new Error(`Product "${slug}" is not visible in channel ${channel}`);
+    }
+    if (slugs.length > 0 || product.variants.length > 1) {
+      products.push(product);
+    }
+  }
+  return products;
+}
+
+/**
+ * The API variant a selection of attribute values stands for
+ * A flat "Variant" list (storefronts without attribute groups) matches on the variant name
+ */
+export function expectedVariant(product: ProductDetail, selection: Record<string, string>): ProductVariant | undefined {
+  return product.variants.find(variant => Object.entries(selection).every(([name, value]) => {
+    const attribute = variant.attributes.find(candidate => candidate.attribute.name.toLowerCase() === name.toLowerCase());
+    return attribute
+      ? attribute.values.some(candidate => candidate.name === value)
+      : name === 'Variant' && variant.name === value;
+  }));
+}
+
+/**
+ * List every way the page disagrees with the API: wrong variant in the URL, wrong price,
+ * add to cart enabled for sold out variants (or disabled for in-stock ones), and variants that cannot be selected
+ */
+export function checkVariantModel(product: ProductDetail, model: VariantModel): string[] {
+  if (model.combinations.length === 0) {
+    return [`no variant options shown for ${product.variants.length} variants`];
+  }
+
+  const problems = model.combinations.flatMap(combination => checkCombination(product, combination));
+  const selectable = new Set(model.combinations.map(combination => expectedVariant(product, combination.selection)?.id));
+  for (const variant of product.variants.filter(candidate => !selectable.has(candidate.id))) {
+    problems.push(`variant "${variant.name}" (${variant.id}) cannot be selected`);
+  }
+  return problems;
+}
+
+function checkCombination(product: ProductDetail, combination: VariantCombination): string[] {
+  const label = Object.values(combination.selection).join(' / ');
+  const variant = expectedVariant(product, combination.selection);
+  if (!variant) {
+    return combination.available ? [`${label}: add to cart enabled for a combination that matches no variant`] : [];
+  }
+
+  const problems: string[] = [];
+  if (combination.variantId !== variant.id) {
+    problems.push(`${label}: URL variant is ${combination.variantId ?? 'missing'}, expected ${variant.id}`);
+  }
+  const inStock = variant.quantityAvailable === null || variant.quantityAvailable > 0;
+  if (combination.available !== inStock) {
+    problems.push(`${label}: add to cart ${inStock ? 'disabled for an in-stock' : 'enabled for a sold out'} variant`);
+  }
+  const price = variant.pricing?.price?.gross;
+  if (price) {
+    const expected = Money.of(price.amount, price.currency);
+    if (!combination.price?.equals(expected)) {
+      problems.push(`${label}: price shows ${combination.price ?? 'no readable price'}, expected ${expected}`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Attach the variant matrix results to the running test
+ */
+export async function recordVariantMatrix(results: VariantMatrixResult[]): Promise<void> {
+  await test.info().attach(VARIANT_MATRIX_ATTACHMENT, { body: JSON.stringify(results), contentType: 'application/json' });
+}